@@ -1,3 +1,272 @@
 #!/usr/bin/env node
-const {gather} = require("../src")
-console.log(JSON.stringify(gather({filename: process.argv[2]}), null, 2))
+const fs = require("fs"), path = require("path")
+const {
+  gatherMany, render, diff, apiReport, checkAPIReport, lintDocs, watch, usageIndex, searchIndex, checkExamples
+} = require("../src")
+
+const usage = `Usage: getdocs-ts [options] <entry.ts>...
+       getdocs-ts diff [--fail-on-breaking] [--json] <old.json> <new.json>
+
+Options:
+  --basedir <dir>         Directory inside which imported files are considered
+                          internal to the module
+  -p, --project <file>    The tsconfig.json file to compile with
+  -o, --out <file>        Write the output to a file instead of stdout
+  --out-dir <dir>         Write one file per entry point to this directory
+  --compact               Output JSON without indentation
+  --pretty                Output indented JSON (the default)
+  --format <format>       Output "json" (the default), "markdown", "html",
+                          "declarations" (an API report in .d.ts syntax), or
+                          "search" (a search index)
+  --check                 Typecheck the declarations output against the
+                          original program, and fail when it has errors
+  --resolve-links         Resolve references in doc comments, and warn about
+                          the ones that can't be resolved
+  --lint                  Instead of outputting docs, list undocumented items
+                          and parameters, and the coverage for each entry
+  --min-coverage <pct>    With --lint, fail when an entry's documentation
+                          coverage is below this percentage
+  --check-examples        Instead of outputting docs, typecheck the code
+                          examples in doc comments, and fail on errors
+  --recover               Warn about types that can't be described, instead
+                          of failing
+  --diagnostics <mode>    Report TypeScript errors in the entry files and the
+                          files they import, as warnings ("warn") or by
+                          failing ("error")
+  --hide-tag <tag>        Hide items whose doc comments contain @tag (can be
+                          given multiple times)
+  --include-internal      Include items marked @internal (or with one of
+                          the tags given to --hide-tag) in the output
+  --protected             Include protected class members and constructors
+  --inherited             Include members that classes and interfaces inherit
+                          from their base types
+  --watch                 Keep running, and regenerate the output when the
+                          source files change
+  --title <title>         Page title for Markdown and HTML output
+  --source-url <template> URL template for source links in Markdown and HTML
+                          output, with {file} and {line} placeholders
+  --usage                 List the items that use and return each type in
+                          Markdown and HTML output
+  -h, --help              Show this help text
+
+The diff command compares two JSON outputs and lists the changes
+between them. With --fail-on-breaking, it exits with status 1 when
+any of the changes are breaking. --json outputs the changes as JSON.`
+
+class UsageError extends Error {}
+
+function parseArgs(argv) {
+  let opts = {entries: [], basedir: null, project: null, out: null, outDir: null, compact: false, help: false,
+              format: "json", title: null, sourceURL: null, usage: false, check: false,
+              resolveLinks: false, lint: false, minCoverage: null, checkExamples: false,
+              watch: false, recover: false, diagnostics: null,
+              hideTags: [], includeInternal: false, includeProtected: false,
+              includeInherited: false}
+  for (let i = 0; i < argv.length; i++) {
+    let arg = argv[i], value = null, eq = /^(--[^=]+)=(.*)$/.exec(arg)
+    if (eq) { arg = eq[1]; value = eq[2] }
+    let next = () => {
+      if (value != null) return value
+      if (i == argv.length - 1) throw new UsageError(`Missing value for ${arg}`)
+      return argv[++i]
+    }
+    if (arg == "--basedir") opts.basedir = next()
+    else if (arg == "--project" || arg == "-p") opts.project = next()
+    else if (arg == "--out" || arg == "-o") opts.out = next()
+    else if (arg == "--out-dir") opts.outDir = next()
+    else if (arg == "--compact") opts.compact = true
+    else if (arg == "--pretty") opts.compact = false
+    else if (arg == "--format") opts.format = next()
+    else if (arg == "--title") opts.title = next()
+    else if (arg == "--source-url") opts.sourceURL = next()
+    else if (arg == "--usage") opts.usage = true
+    else if (arg == "--check") opts.check = true
+    else if (arg == "--resolve-links") opts.resolveLinks = true
+    else if (arg == "--lint") opts.lint = true
+    else if (arg == "--check-examples") opts.checkExamples = true
+    else if (arg == "--watch") opts.watch = true
+    else if (arg == "--recover") opts.recover = true
+    else if (arg == "--diagnostics") opts.diagnostics = next()
+    else if (arg == "--hide-tag") opts.hideTags.push(next().replace(/^@/, ""))
+    else if (arg == "--include-internal") opts.includeInternal = true
+    else if (arg == "--protected") opts.includeProtected = true
+    else if (arg == "--inherited") opts.includeInherited = true
+    else if (arg == "--min-coverage") opts.minCoverage = Number(next())
+    else if (arg == "--help" || arg == "-h") opts.help = true
+    else if (arg == "--") opts.entries.push(...argv.slice(i + 1)), i = argv.length
+    else if (arg[0] == "-" && arg.length > 1) throw new UsageError(`Unrecognized option ${arg}`)
+    else opts.entries.push(arg)
+  }
+  if (opts.help) return opts
+  if (!opts.entries.length) throw new UsageError("No entry files given")
+  if (opts.out && opts.outDir) throw new UsageError("--out and --out-dir can not be used together")
+  if (!(opts.format in extensions)) throw new UsageError(`Unknown format ${opts.format}`)
+  if (opts.check && opts.format != "declarations") throw new UsageError("--check requires --format declarations")
+  if (opts.usage && !["markdown", "html"].includes(opts.format))
+    throw new UsageError("--usage requires --format markdown or html")
+  if (opts.minCoverage != null && (!opts.lint || isNaN(opts.minCoverage)))
+    throw new UsageError("--min-coverage requires --lint and a number")
+  if (opts.diagnostics != null && !["warn", "error"].includes(opts.diagnostics))
+    throw new UsageError(`Unknown diagnostics mode ${opts.diagnostics}`)
+  if (opts.watch && (opts.check || opts.lint)) throw new UsageError("--watch can not be used with --check or --lint")
+  if (opts.checkExamples && (opts.watch || opts.lint || opts.check))
+    throw new UsageError("--check-examples can not be used with --watch, --lint, or --check")
+  if (opts.format != "json" && !opts.lint && !opts.checkExamples && opts.entries.length > 1 && !opts.outDir)
+    throw new UsageError(`Rendering ${opts.format} for multiple entries requires --out-dir`)
+  return opts
+}
+
+const extensions = {json: ".json", markdown: ".md", html: ".html", declarations: ".d.ts", search: ".search.json"}
+
+// Name of the file written for an entry when using --out-dir
+function outputName(entry, format) {
+  return path.basename(entry).replace(/(\.d)?\.[cm]?tsx?$/, "") + extensions[format]
+}
+
+function writeOutput(file, value, opts, usage) {
+  let text = typeof value == "string" ? value
+    : opts.format == "json" ? JSON.stringify(value, null, opts.compact ? undefined : 2) + "\n"
+    : opts.format == "declarations" ? apiReport(value)
+    : opts.format == "search" ? JSON.stringify(searchIndex(value)) + "\n"
+    : render(value, {format: opts.format, title: opts.title || undefined, sourceURL: opts.sourceURL || undefined, usage})
+  if (file == null) {
+    process.stdout.write(text)
+  } else {
+    fs.mkdirSync(path.dirname(file), {recursive: true})
+    fs.writeFileSync(file, text)
+  }
+}
+
+function diffMain(argv) {
+  let failOnBreaking = false, json = false, files = []
+  for (let arg of argv) {
+    if (arg == "--fail-on-breaking") failOnBreaking = true
+    else if (arg == "--json") json = true
+    else if (arg[0] == "-" && arg.length > 1) throw new UsageError(`Unrecognized option ${arg}`)
+    else files.push(arg)
+  }
+  if (files.length != 2) throw new UsageError("The diff command takes two files")
+  let [oldItems, newItems] = files.map(file => JSON.parse(fs.readFileSync(file, "utf8")))
+  let changes = diff(oldItems, newItems)
+  if (json) {
+    writeOutput(null, changes, {format: "json"})
+  } else {
+    for (let {id, severity, message} of changes) console.log(`${severity.padEnd(13)} ${id}: ${message}`)
+    let breaking = changes.filter(c => c.severity == "breaking").length
+    console.log(`${changes.length} change${changes.length == 1 ? "" : "s"}, ${breaking} breaking`)
+  }
+  return failOnBreaking && changes.some(c => c.severity == "breaking") ? 1 : 0
+}
+
+function printWarning({message, loc}) {
+  console.error((loc ? `${loc.file}:${loc.line}: ` : "") + message)
+}
+
+function lintMain(specs, opts) {
+  let failed = false
+  lintDocs(specs).forEach((report, i) => {
+    for (let {message, loc} of report.problems) console.log((loc ? `${loc.file}:${loc.line}: ` : "") + message)
+    console.log(`${specs[i].filename}: ${report.coverage}% documented (${report.documented} of ${report.total})`)
+    if (opts.minCoverage != null && report.coverage < opts.minCoverage) failed = true
+  })
+  return failed ? 1 : 0
+}
+
+function examplesMain(specs) {
+  let failed = false
+  checkExamples(specs).forEach((report, i) => {
+    for (let {message, id, loc} of report.warnings)
+      console.log((loc ? `${loc.file}:${loc.line}: ` : "") + `${id}: ${message}`)
+    console.log(`${specs[i].filename}: ${report.examples} example(s) checked`)
+    if (report.hasErrors) failed = true
+  })
+  return failed ? 1 : 0
+}
+
+function main(argv) {
+  if (argv[0] == "diff") return diffMain(argv.slice(1))
+  let opts = parseArgs(argv)
+  if (opts.help) {
+    console.log(usage)
+    return 0
+  }
+  if (opts.outDir) {
+    let names = opts.entries.map(e => outputName(e, opts.format))
+    let dup = names.find((n, i) => names.indexOf(n) != i)
+    if (dup) throw new UsageError(`Multiple entry files would be written to ${dup}`)
+  }
+
+  let specs = opts.entries.map(filename => {
+    let spec = {filename, onWarning: printWarning}
+    if (opts.basedir) spec.basedir = opts.basedir
+    if (opts.project) spec.tsconfig = opts.project
+    if (opts.resolveLinks) spec.resolveLinks = true
+    if (opts.recover) spec.recover = true
+    if (opts.diagnostics) spec.diagnostics = opts.diagnostics
+    if (opts.includeProtected) spec.includeProtected = true
+    if (opts.includeInherited) spec.includeInherited = true
+    if (opts.hideTags.length || opts.includeInternal)
+      spec.visibility = {hiddenTags: opts.hideTags, includeHidden: opts.includeInternal}
+    return spec
+  })
+  if (opts.lint) return lintMain(specs, opts)
+  if (opts.checkExamples) return examplesMain(specs)
+  if (opts.watch) return watchMain(specs, opts)
+  let results, failed = false
+  if (opts.check) {
+    results = specs.map(spec => {
+      let {report, errors} = checkAPIReport(spec)
+      for (let error of errors) console.error(`${spec.filename}: ${error}`)
+      if (errors.length) failed = true
+      return report
+    })
+  } else {
+    results = gatherMany(specs)
+  }
+
+  writeResults(results, opts)
+  return failed ? 1 : 0
+}
+
+// Write the results for the entries. With --out-dir, only the files
+// for the entries whose indices are in `changed` are written.
+function writeResults(results, opts, changed = null) {
+  let usage = opts.usage ? usageIndex(results) : undefined
+  if (opts.outDir) {
+    opts.entries.forEach((entry, i) => {
+      if (!changed || changed.includes(i))
+        writeOutput(path.join(opts.outDir, outputName(entry, opts.format)), results[i], opts, usage)
+    })
+  } else if (results.length == 1) {
+    writeOutput(opts.out, results[0], opts, usage)
+  } else {
+    let combined = {}
+    opts.entries.forEach((entry, i) => combined[entry] = results[i])
+    writeOutput(opts.out, combined, opts)
+  }
+}
+
+function watchMain(specs, opts) {
+  let first = true
+  watch(specs, (results, changed) => {
+    writeResults(results, opts, changed)
+    if (!first) console.error(`getdocs-ts: updated ${changed.map(i => opts.entries[i]).join(", ")}`)
+    first = false
+  }, err => {
+    console.error(`getdocs-ts: ${err.message}`)
+  })
+  return 0
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2))
+} catch (err) {
+  if (err instanceof UsageError) {
+    console.error(`getdocs-ts: ${err.message}\n\n${usage}`)
+    process.exitCode = 2
+  } else {
+    console.error(`getdocs-ts: ${err.message}`)
+    if (process.env.GETDOCS_DEBUG) console.error(err.stack)
+    process.exitCode = 1
+  }
+}
@@ -0,0 +1,55 @@
+import {
+  Program, SourceFile, Diagnostic, DiagnosticCategory, flattenDiagnosticMessageText, getLineAndCharacterOfPosition,
+  isImportDeclaration, isExportDeclaration
+} from "typescript"
+
+import {resolve, relative, sep} from "path"
+
+import {Warning} from "./index"
+
+// Collect TypeScript's syntactic and semantic diagnostics for an
+// entry file and the files inside `basedir` that it (directly or
+// indirectly) imports. Returns them as warnings, along with a flag
+// indicating whether any of them are errors.
+export function fileDiagnostics(program: Program, filename: string, basedir: string) {
+  let tc = program.getTypeChecker(), files: SourceFile[] = []
+  let add = (file: SourceFile | undefined) => {
+    if (!file || files.includes(file)) return
+    let path = resolve(file.fileName)
+    if (!path.startsWith(basedir + sep) || /\bnode_modules\b/.test(path.slice(basedir.length)) || file.isDeclarationFile) return
+    files.push(file)
+  }
+  add(program.getSourceFile(filename))
+  for (let i = 0; i < files.length; i++) for (let statement of files[i].statements) {
+    if ((isImportDeclaration(statement) || isExportDeclaration(statement)) && statement.moduleSpecifier) {
+      let module = tc.getSymbolAtLocation(statement.moduleSpecifier)
+      let decl = module && module.valueDeclaration
+      if (decl) add(decl.getSourceFile())
+    }
+  }
+
+  let warnings: Warning[] = [], hasErrors = false
+  for (let file of files) {
+    for (let diag of [...program.getSyntacticDiagnostics(file), ...program.getSemanticDiagnostics(file)]) {
+      if (diag.category == DiagnosticCategory.Error) hasErrors = true
+      warnings.push(diagnosticWarning(diag, basedir))
+    }
+  }
+  return {warnings, hasErrors}
+}
+
+// Format a diagnostic's category, code, and message, as in
+// `"error TS2322: ..."`.
+export function diagnosticMessage(diag: Diagnostic) {
+  let category = DiagnosticCategory[diag.category].toLowerCase()
+  return `${category} TS${diag.code}: ${flattenDiagnosticMessageText(diag.messageText, "\n")}`
+}
+
+function diagnosticWarning(diag: Diagnostic, basedir: string): Warning {
+  let warning: Warning = {message: diagnosticMessage(diag)}
+  if (diag.file && diag.start != null) {
+    let {line, character} = getLineAndCharacterOfPosition(diag.file, diag.start)
+    warning.loc = {file: relative(basedir, diag.file.fileName), line: line + 1, column: character}
+  }
+  return warning
+}
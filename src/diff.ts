@@ -0,0 +1,183 @@
+import {Item, BindingType, CallSignature, Param} from "./index"
+import {TypePrinter, paramName, kindName} from "./print"
+
+export type Severity = "breaking" | "non-breaking" | "documentation"
+
+export type Change = {
+  id: string,
+  severity: Severity,
+  message: string
+}
+
+const printer = new TypePrinter()
+
+// Compare two sets of items, as returned by `gather`, and list the
+// changes between them, classifying each change by whether it can
+// break code using the old interface.
+export function diff(oldItems: {[name: string]: Item}, newItems: {[name: string]: Item}): Change[] {
+  let changes: Change[] = []
+  diffMembers(oldItems, newItems, changes)
+  return changes
+}
+
+// Kinds of items whose properties are compared member by member,
+// rather than as part of their type.
+const containers = ["class", "interface", "enum", "namespace", "function"]
+
+function diffMembers(oldMembers: {[name: string]: Item} | undefined, newMembers: {[name: string]: Item} | undefined,
+                     changes: Change[]) {
+  let oldByID = byID(oldMembers), newByID = byID(newMembers)
+  for (let id in oldByID) {
+    if (newByID[id]) diffItem(oldByID[id], newByID[id], changes)
+    else changes.push({id, severity: "breaking", message: `${kindName(oldByID[id])} was removed`})
+  }
+  for (let id in newByID) if (!oldByID[id]) {
+    let item = newByID[id]
+    // New abstract members must be implemented by existing subclasses
+    changes.push({id, severity: item.abstract ? "breaking" : "non-breaking", message: `${kindName(item)} was added`})
+  }
+}
+
+function byID(members: {[name: string]: Item} | undefined) {
+  let result: {[id: string]: Item} = Object.create(null)
+  if (members) for (let name in members) result[members[name].id] = members[name]
+  return result
+}
+
+function diffItem(a: Item, b: Item, changes: Change[]) {
+  let {id} = a, add = (severity: Severity, message: string) => changes.push({id, severity, message})
+  if (a.kind != b.kind) {
+    add("breaking", `changed from ${kindName(a)} to ${kindName(b)}`)
+    return
+  }
+
+  if (a.description != b.description) add("documentation", "description changed")
+  if (a.deprecated == null && b.deprecated != null) add("documentation", "was deprecated")
+  else if (a.deprecated != null && b.deprecated == null) add("documentation", "is no longer deprecated")
+  for (let field of ["since", "see", "examples"] as const)
+    if (JSON.stringify(a[field]) != JSON.stringify(b[field])) add("documentation", `${field} changed`)
+
+  if (a.value !== b.value)
+    add("breaking", `value changed from ${JSON.stringify(a.value) || "computed"} to ${JSON.stringify(b.value) || "computed"}`)
+  if (a.kind == "enum" && !!a.const != !!b.const) add("breaking", b.const ? "became a const enum" : "is no longer a const enum")
+  // Importers can't assign to exported variables either way
+  if (a.kind == "variable" && !a.const && b.const) add("non-breaking", "became const")
+  else if (a.kind == "variable" && a.const && !b.const) add("non-breaking", "is no longer const")
+  // For constants with a literal type, a new initializer also changes
+  // the type, and is reported as a type change instead
+  if (a.initializer != b.initializer && a.initializer && b.initializer && printer.type(a) == printer.type(b))
+    add("non-breaking", `initializer changed from ${a.initializer} to ${b.initializer}`)
+  if (!a.abstract && b.abstract) add("breaking", "became abstract")
+  else if (a.abstract && !b.abstract) add("non-breaking", "is no longer abstract")
+  if (!a.access && b.access) add("breaking", `became ${b.access}`)
+  else if (a.access && !b.access) add("non-breaking", `is no longer ${a.access}`)
+  if (!a.readonly && b.readonly) add("breaking", "became readonly")
+  else if (a.readonly && !b.readonly) add("non-breaking", "is no longer readonly")
+  if (!a.writeonly && b.writeonly) add("breaking", "became write-only")
+  else if (a.writeonly && !b.writeonly) add("non-breaking", "is no longer write-only")
+  // Readers of an optional member must handle it being absent, and
+  // implementations and object literals must provide required ones
+  if (a.kind == "property" || a.kind == "method") {
+    if (!a.optional && b.optional) add("breaking", "became optional")
+    else if (a.optional && !b.optional) add("breaking", "is no longer optional")
+  }
+
+  let paramsA = a.typeParams ? printer.typeParams(a.typeParams) : ""
+  let paramsB = b.typeParams ? printer.typeParams(b.typeParams) : ""
+  if (paramsA != paramsB) add("breaking", `type parameters changed from ${paramsA || "none"} to ${paramsB || "none"}`)
+
+  if (a.extends || b.extends) {
+    let extA = a.extends && printer.type(a.extends), extB = b.extends && printer.type(b.extends)
+    if (extA != extB) add(extA ? "breaking" : "non-breaking", extA ? `no longer extends ${extA}` + (extB ? `, but ${extB}` : "")
+                          : `now extends ${extB}`)
+  }
+  let implA = (a.implements || []).map(t => printer.type(t)), implB = (b.implements || []).map(t => printer.type(t))
+  let verb = a.kind == "interface" ? "extends" : "implements"
+  for (let t of implA) if (!implB.includes(t)) add("breaking", `no longer ${verb} ${t}`)
+  for (let t of implB) if (!implA.includes(t)) add("non-breaking", `now ${verb} ${t}`)
+
+  if (a.signatures && b.signatures || containers.includes(a.kind)) {
+    diffSignatures(a.signatures || [], b.signatures || [], add)
+  } else {
+    // Values are read, so a wider type can break users. Writable
+    // properties and type aliases may be used in both directions.
+    // Accessors with a separate write type have that type compared
+    // separately.
+    let position = b.writeonly ? "input" as const
+      : a.kind == "typealias" || a.kind == "property" && !b.readonly && !b.writeType ? null : "output" as const
+    diffType(a, b, position, "type", add)
+    if (a.writeType || b.writeType) diffType(a.writeType || a, b.writeType || b, "input", "write type", add)
+  }
+
+  if (a.construct || b.construct)
+    diffMembers(a.construct && {constructor: a.construct}, b.construct && {constructor: b.construct}, changes)
+  if (containers.includes(a.kind)) diffMembers(a.properties, b.properties, changes)
+  diffMembers(a.instanceProperties, b.instanceProperties, changes)
+  diffMembers(a.namespaceMembers, b.namespaceMembers, changes)
+}
+
+type Add = (severity: Severity, message: string) => void
+
+function diffSignatures(a: readonly CallSignature[], b: readonly CallSignature[], add: Add) {
+  for (let i = 0; i < Math.min(a.length, b.length); i++)
+    diffSignature(a[i], b[i], a.length > 1 ? `overload ${i + 1}: ` : "", add)
+  if (a.length > b.length) add("breaking", `${a.length - b.length} signature(s) removed`)
+  else if (b.length > a.length) add("non-breaking", `${b.length - a.length} signature(s) added`)
+}
+
+function diffSignature(a: CallSignature, b: CallSignature, prefix: string, add: Add) {
+  let paramsA = a.typeParams ? printer.typeParams(a.typeParams) : ""
+  let paramsB = b.typeParams ? printer.typeParams(b.typeParams) : ""
+  if (paramsA != paramsB) add("breaking", `${prefix}type parameters changed from ${paramsA || "none"} to ${paramsB || "none"}`)
+
+  for (let i = 0; i < Math.max(a.params.length, b.params.length); i++) {
+    let pa: Param | undefined = a.params[i], pb: Param | undefined = b.params[i]
+    if (!pb) {
+      add("breaking", `${prefix}parameter ${paramName(pa)} was removed`)
+    } else if (!pa) {
+      let optional = pb.optional || pb.rest
+      add(optional ? "non-breaking" : "breaking", `${prefix}${optional ? "optional" : "required"} parameter ${paramName(pb)} was added`)
+    } else {
+      let name = paramName(pb)
+      if (paramName(pa) != name) add("documentation", `${prefix}parameter ${paramName(pa)} was renamed to ${name}`)
+      if (pa.description != pb.description) add("documentation", `${prefix}description of parameter ${name} changed`)
+      if (pa.optional && !pb.optional) add("breaking", `${prefix}parameter ${name} is no longer optional`)
+      else if (!pa.optional && pb.optional) add("non-breaking", `${prefix}parameter ${name} became optional`)
+      if (!!pa.rest != !!pb.rest) add("breaking", `${prefix}parameter ${name} ${pb.rest ? "became" : "is no longer"} a rest parameter`)
+      diffType(pa, pb, "input", `${prefix}type of parameter ${name}`, add)
+    }
+  }
+
+  let predA = a.predicate && printer.predicate(a.predicate), predB = b.predicate && printer.predicate(b.predicate)
+  if (predA && predB && predA != predB) add("breaking", `${prefix}type predicate changed from ${predA} to ${predB}`)
+  else if (predA && !predB) add("breaking", `${prefix}no longer has type predicate ${predA}`)
+  else if (!predA && predB) add("non-breaking", `${prefix}now has type predicate ${predB}`)
+
+  if (a.returns && b.returns)
+    diffType(a.returns, b.returns, "output", `${prefix}return type`, add)
+  else if (a.returns && a.type != "constructor")
+    add("breaking", `${prefix}no longer returns a value`)
+  else if (b.returns && b.type != "constructor")
+    add("non-breaking", `${prefix}now returns ${printer.type(b.returns)}`)
+  if ((a.returns && a.returns.description) != (b.returns && b.returns.description))
+    add("documentation", `${prefix}description of return value changed`)
+}
+
+// Compare two types. In input positions (parameters), a type
+// that accepts fewer values breaks callers. In output positions
+// (return values, properties), a type that can produce more values
+// does. When `position` is null, any change is considered breaking.
+function diffType(typeA: BindingType, typeB: BindingType, position: "input" | "output" | null, what: string, add: Add) {
+  let a = printer.type(typeA), b = printer.type(typeB)
+  if (a == b) return
+  let membersA = unionMembers(typeA), membersB = unionMembers(typeB)
+  let widened = membersA.every(m => membersB.includes(m)), narrowed = membersB.every(m => membersA.includes(m))
+  let safe = position == "input" ? widened : position == "output" ? narrowed : false
+  add(safe ? "non-breaking" : "breaking",
+      `${what} ${widened ? "widened" : narrowed ? "narrowed" : "changed"} from ${a} to ${b}`)
+}
+
+function unionMembers(type: BindingType) {
+  if (type.type != "union" || type.typeSource) return [printer.type(type)]
+  return type.typeArgs!.map(t => printer.type(t))
+}
@@ -0,0 +1,91 @@
+import {createProgram, getLineAndCharacterOfPosition, DiagnosticCategory} from "typescript"
+
+import {join, relative, resolve} from "path"
+
+import {Item, Warning, GatherSpec, gatherMany} from "./index"
+import {loadConfig, specBasedir, groupSpecs, virtualHost} from "./program"
+import {diagnosticMessage} from "./diagnostics"
+import {moduleSpecifier} from "./report"
+import {walkItems} from "./walk"
+
+export type ExampleReport = {
+  // TypeScript's diagnostics for the examples, with the id and `loc`
+  // of the item whose doc comment contains the example
+  warnings: Warning[],
+  // The number of examples that were checked
+  examples: number,
+  // Whether any of the diagnostics are errors
+  hasErrors: boolean
+}
+
+const fenceRE = /^[ \t]*```[ \t]*([\w-]*)[^\n]*\n([^]*?)^[ \t]*```/gm
+
+// Find the TypeScript code in an item's doc comment. This includes
+// the code blocks in its description that are marked as `ts` or
+// `typescript`, and its `@example` sections. Examples that contain
+// code blocks contribute those blocks (when they are unmarked or
+// marked as TypeScript), others are taken as a whole.
+export function findExamples(item: Item): string[] {
+  let result: string[] = []
+  let blocks = (text: string, unmarked: boolean) => {
+    let found = false, m
+    fenceRE.lastIndex = 0
+    while (m = fenceRE.exec(text)) {
+      found = true
+      if (/^(ts|typescript)$/i.test(m[1]) || unmarked && !m[1]) result.push(m[2])
+    }
+    return found
+  }
+  if (item.description) blocks(item.description, false)
+  for (let example of item.examples || []) if (!blocks(example, true)) result.push(example)
+  return result
+}
+
+// Gather the given specs, and typecheck the examples in their doc
+// comments, returning a report for each spec. Each example is
+// compiled as a separate module in the spec's `basedir`, using the
+// spec's compiler options. Unless it has import statements of its
+// own, the example gets an import of all the exports of the spec's
+// entry file prepended to it.
+export function checkExamples(specs: readonly GatherSpec[]): ExampleReport[] {
+  let results = gatherMany(specs)
+  let reports: ExampleReport[] = specs.map(() => ({warnings: [], examples: 0, hasErrors: false}))
+  for (let group of groupSpecs(specs)) {
+    let {options, configPath} = loadConfig(specs[group[0]])
+    let files: {[path: string]: string} = Object.create(null)
+    let sources: {file: string, spec: number, item: Item, n: number, headerLines: number}[] = []
+    for (let i of group) {
+      let spec = specs[i], basedir = specBasedir(spec, configPath)
+      let names = Object.keys(results[i]).filter(name => name != "default")
+      let entry = moduleSpecifier(relative(basedir, resolve(spec.filename)))
+      let header = `import {${names.join(", ")}} from ${JSON.stringify(entry)}\n`
+      walkItems(results[i], target => {
+        findExamples(target as Item).forEach((code, n) => {
+          let file = join(basedir, `__example_${sources.length}__.ts`)
+          let head = /^\s*import\b/m.test(code) ? "" : header
+          // The export makes sure each example is a separate module
+          files[file] = head + code + "\nexport {}\n"
+          sources.push({file, spec: i, item: target as Item, n, headerLines: head ? 1 : 0})
+        })
+      })
+    }
+    if (!sources.length) continue
+
+    let host = virtualHost(options, files)
+    let program = createProgram({rootNames: group.map(i => specs[i].filename).concat(Object.keys(files)), options, host})
+    for (let {file, spec, item, n, headerLines} of sources) {
+      let sourceFile = program.getSourceFile(file)!, report = reports[spec]
+      report.examples++
+      for (let diag of [...program.getSyntacticDiagnostics(sourceFile), ...program.getSemanticDiagnostics(sourceFile)]) {
+        let line = diag.start == null ? 0 : getLineAndCharacterOfPosition(sourceFile, diag.start).line - headerLines
+        // Ignore problems in the added import, and unused names, which
+        // are common in examples
+        if (line < 0 || diag.reportsUnnecessary) continue
+        if (diag.category == DiagnosticCategory.Error) report.hasErrors = true
+        report.warnings.push({message: `Example ${n + 1}, line ${line + 1}: ${diagnosticMessage(diag)}`,
+                              id: item.id, loc: item.loc})
+      }
+    }
+  }
+  return reports
+}
@@ -1,21 +1,37 @@
 import {
-  getCombinedModifierFlags, findConfigFile, createCompilerHost, getParsedCommandLineOfConfigFile, createProgram, sys,
+  getCombinedModifierFlags, createCompilerHost, createProgram,
   getEffectiveConstraintOfTypeParameter,
   getLineAndCharacterOfPosition, isWhiteSpaceLike, isLineBreak,
-  isClassLike, isInterfaceDeclaration,
-  TypeChecker,
-  Symbol, SymbolFlags, ModifierFlags,
+  isClassLike, isInterfaceDeclaration, isIdentifier, isSetAccessorDeclaration, isVariableDeclaration,
+  isPropertyAssignment, isModuleDeclaration, isExternalModule, getCombinedNodeFlags, NodeFlags,
+  TypeChecker, Program,
+  Symbol, SymbolFlags, ModifierFlags, InternalSymbolName,
   Type, TypeFlags, ObjectType, TypeReference, ObjectFlags, LiteralType, UnionOrIntersectionType, ConditionalType,
-  Signature, IndexType, IndexedAccessType, TypeElement, TemplateLiteralType,
+  Signature, TypePredicateKind, TupleTypeReference, ElementFlags, IndexType, IndexedAccessType, TypeElement,
+  TemplateLiteralType, StringMappingType,
   Node, SyntaxKind, UnionOrIntersectionTypeNode, MappedTypeNode, TypeOperatorNode, TypeLiteralNode,
   Declaration, NamedDeclaration, TypeParameterDeclaration, ParameterDeclaration, EnumDeclaration,
-  VariableDeclaration, ConstructorDeclaration, TypeAliasDeclaration, TypeReferenceNode
+  VariableDeclaration, ConstructorDeclaration, TypeAliasDeclaration, TypeReferenceNode,
+  Expression, PrefixUnaryExpression, ArrayLiteralExpression, ObjectLiteralExpression, AsExpression
 } from "typescript"
 
-import {resolve, dirname, relative, sep} from "path"
+import {resolve, relative, sep} from "path"
+
+import {loadConfig, specBasedir, groupSpecs, virtualHost} from "./program"
+import {resolveLinks, ignoreWarning, formatWarning, LinkSpec} from "./links"
+import {fileDiagnostics} from "./diagnostics"
+
+export {render, RenderOptions} from "./render"
+export {diff, Change, Severity} from "./diff"
+export {toDeclarationString, apiReport, checkAPIReport} from "./report"
+export {checkDocs, lintDocs, DocReport} from "./lint"
+export {watch, Watcher} from "./watch"
+export {usageIndex, Usage} from "./usage"
+export {searchIndex, tokenize, SearchIndex, SearchEntry} from "./search"
+export {checkExamples, findExamples, ExampleReport} from "./examples"
 
 export type BindingKind = "class" | "enum" | "enummember" | "interface" | "variable" | "property" | "method" |
-  "typealias" | "typeparam" | "constructor" | "function" | "parameter" | "reexport"
+  "typealias" | "typeparam" | "constructor" | "function" | "parameter" | "reexport" | "namespace"
 
 const ItemsWithParams = ["class", "enum", "interface", "typealias"]
 
@@ -28,7 +44,34 @@ export type Binding = {
   loc?: Loc,
   abstract?: boolean,
   readonly?: boolean,
-  optional?: boolean
+  optional?: boolean,
+  deprecated?: string,
+  since?: string,
+  see?: readonly string[],
+  examples?: readonly string[],
+  links?: readonly Link[],
+  internal?: boolean,
+  access?: "protected",
+  writeonly?: boolean,
+  // For accessors whose setter takes a different type than the
+  // getter returns, the type taken by the setter
+  writeType?: BindingType,
+  // Set for `const` and `declare` enums, and for variables declared
+  // with `const`
+  const?: boolean,
+  declare?: boolean,
+  // The value of enum members
+  value?: string | number,
+  // Set for enum members whose value isn't a constant
+  computed?: boolean,
+  // The source text of simple initializers of constants
+  initializer?: string,
+  // For members inherited from a base class or interface (see
+  // `includeInherited`), the type that declares them
+  inheritedFrom?: BindingType,
+  // With `includeInherited`, set for members that redeclare a member
+  // of a base type
+  overrides?: boolean
 }
 
 export type BindingType = {
@@ -37,23 +80,62 @@ export type BindingType = {
   typeParamSource?: string,
   properties?: {[name: string]: Item},
   instanceProperties?: {[name: string]: Item},
+  // The exported members of a namespace merged with an interface or
+  // type alias
+  namespaceMembers?: {[name: string]: Item},
   typeArgs?: readonly BindingType[],
   typeParams?: readonly Param[],
   // Used by mapped types
   key?: Param,
+  // The modifiers of mapped types, as written (for example
+  // `"-readonly"` or `"+?"`)
+  readonlyToken?: "readonly" | "+readonly" | "-readonly",
+  questionToken?: "?" | "+?" | "-?",
+  // The type in the `as` clause of mapped types that remap keys
+  nameType?: BindingType,
+  // For tuple types, the labels and modifiers of the elements, in
+  // the same order as `typeArgs`
+  elements?: readonly TupleElement[],
+  // Set for readonly tuple types. (Not called `readonly`, since that
+  // would clash with the flag of a binding that has this type.)
+  readonlyTuple?: boolean,
+  // The literal text around the types in template literal types
+  texts?: readonly string[],
+  // For unsupported types, TypeScript's description of the type
+  text?: string,
+  // For unsupported types, the warning that was emitted for them
+  warning?: Warning,
   signatures?: readonly CallSignature[],
   extends?: BindingType,
   construct?: Item,
   implements?: readonly BindingType[]
 }
 
+export type TupleElement = {
+  name?: string,
+  optional?: boolean,
+  // Set for rest and variadic elements, whose type is the spread type
+  rest?: boolean
+}
+
 export type CallSignature = {
   type: "function" | "constructor",
   params: readonly Param[],
-  returns?: BindingType,
+  returns?: BindingType & {description?: string},
+  // Set for type predicates (`x is T`) and assertion signatures
+  // (`asserts x`, `asserts x is T`)
+  predicate?: TypePredicate,
   typeParams?: readonly Param[]
 }
 
+export type TypePredicate = {
+  // The name of the narrowed parameter, or `"this"`
+  param: string,
+  // Not present for assertions without a type
+  type?: BindingType,
+  asserts?: boolean
+}
+
 export type Param = BindingType & {
   name?: string,
   id: string,
@@ -62,11 +144,27 @@ export type Param = BindingType & {
   loc?: Loc,
   optional?: boolean,
   rest?: boolean,
-  default?: string
+  default?: string,
+  links?: readonly Link[]
 }
 
 export type Item = Binding & BindingType
 
+// A reference in a doc comment. `id` is set when the reference points
+// at a gathered item, and `typeSource` when it points at some other
+// declaration in the program (missing for built-ins).
+export type Link = {
+  text: string,
+  id?: string,
+  typeSource?: string
+}
+
+export type Warning = {
+  message: string,
+  id?: string,
+  loc?: Loc
+}
+
 // Used for recursion check in getObjectType and getCallSignature
 const gettingObjectTypes: Type[] = [], gettingCallSignatures: Signature[] = []
 
@@ -75,15 +173,17 @@ class Context {
               readonly exports: readonly Symbol[],
               readonly basedir: string,
               readonly id: string,
-              readonly typeParams: Param[]) {}
+              readonly typeParams: Param[],
+              readonly spec: GatherSpec) {}
 
   extend(symbol: Symbol | string, sep = "^") {
     let nm = typeof symbol == "string" ? symbol : symbol.name
-    return new Context(this.tc, this.exports, this.basedir, this.id ? this.id + sep + nm : nm, this.typeParams)
+    return new Context(this.tc, this.exports, this.basedir, this.id ? this.id + sep + nm : nm, this.typeParams,
+                       this.spec)
   }
 
   addParams(typeParams: Param[]) {
-    return new Context(this.tc, this.exports, this.basedir, this.id, typeParams.concat(this.typeParams))
+    return new Context(this.tc, this.exports, this.basedir, this.id, typeParams.concat(this.typeParams), this.spec)
   }
 
   gatherSymbols(symbols: readonly Symbol[], target: {[name: string]: Item} = {}, sep = ".",
@@ -100,6 +200,21 @@ class Context {
     return gathered ? target : null
   }
 
+  // Add items for inherited members to `target`, with their
+  // `inheritedFrom` field pointing at the class or interface that
+  // declares them. Members declared by `self` are skipped.
+  gatherInherited(symbols: readonly Symbol[], target: {[name: string]: Item}, self: Symbol) {
+    for (let symbol of symbols.filter(s => maybeDecl(s)).sort(compareSymbols)) {
+      let owner = declaringType(this.tc, symbol)
+      if (owner == self) continue
+      let name = this.symbolName(symbol), item = this.extend(name, ".").itemForSymbol(symbol)
+      if (!item) continue
+      if (owner) item.inheritedFrom = this.getReferenceType(owner)
+      target[name] = item
+    }
+    return Object.keys(target).length ? target : null
+  }
+
   symbolName(symbol: Symbol) {
     if (!/^__@/.test(symbol.name)) return symbol.name
     let name = symbol.name.slice(3).match(/^[^@]*/)![0]
@@ -112,6 +227,8 @@ class Context {
     } else if (symbol.flags & SymbolFlags.Alias) {
       let aliased = this.tc.getAliasedSymbol(symbol)
       if (this.isExternal(aliased)) kind = "reexport"
+      // `export * as ns` aliases a module's file symbol
+      else if (aliased.flags & SymbolFlags.ValueModule && maybeDecl(aliased)?.kind == SyntaxKind.SourceFile) kind = "namespace"
       else return this.itemForSymbol(aliased)
     }
     else if (symbol.flags & SymbolFlags.PropertyOrAccessor) kind = "property"
@@ -124,17 +241,32 @@ class Context {
     else if (symbol.flags & SymbolFlags.TypeAlias) kind = "typealias"
     else if (symbol.flags & SymbolFlags.Variable) kind = "variable"
     else if (symbol.flags & SymbolFlags.TypeParameter) kind = "typeparam"
+    else if (symbol.flags & SymbolFlags.Module) kind = "namespace"
     else throw new Error(`Can not determine a kind for symbol ${symbol.escapedName} with flags ${symbol.flags}`)
 
-    let binding: Binding = {kind, id: this.id}, type = this.symbolType(symbol)
-    this.addSourceData(symbol.declarations || [], binding)
+    if (!maybeDecl(symbol))
+      return {kind, id: this.id, ...this.unsupported(`No declaration available for symbol ${symbol.escapedName}`, symbol.name)}
+    let binding: Binding = {kind, id: this.id}
+    // Interfaces and type aliases can be merged with a value (such as
+    // a namespace), whose type is not the one being declared
+    let type = kind == "interface" || kind == "typealias" ? this.tc.getDeclaredTypeOfSymbol(symbol) : this.symbolType(symbol)
+    let tags = this.addSourceData(symbol.declarations || [], binding)
 
     let mods = symbol.valueDeclaration ? getCombinedModifierFlags(symbol.valueDeclaration) : 0
     if (mods & ModifierFlags.Abstract) binding.abstract = true
+    if (kind == "enum") {
+      if (mods & ModifierFlags.Const) binding.const = true
+      if (mods & ModifierFlags.Ambient) binding.declare = true
+    } else if (kind == "variable" && symbol.valueDeclaration && isVariableDeclaration(symbol.valueDeclaration) &&
+               (getCombinedNodeFlags(symbol.valueDeclaration) & NodeFlags.Const)) {
+      binding.const = true
+      let init = symbol.valueDeclaration.initializer
+      if (init && isSimpleInitializer(init)) binding.initializer = init.getText()
+    }
     if ((mods & ModifierFlags.Readonly) ||
         ((symbol.flags & (SymbolFlags.GetAccessor | SymbolFlags.SetAccessor)) == SymbolFlags.GetAccessor))
       binding.readonly = true
-    if ((mods & (ModifierFlags.Private | ModifierFlags.Protected)) || isHidden(binding.description))
+    if (!this.isAccessible(mods, binding) || this.hide(symbol, binding, tags?.comment))
       return null
     if (symbol.flags & SymbolFlags.Optional) {
       binding.optional = true
@@ -145,9 +277,29 @@ class Context {
     let params = ItemsWithParams.includes(binding.kind) ? this.getTypeParams(decl(symbol)) : null
     if (params) cx = cx.addParams(params)
     let typeDesc = kind == "enum" ? cx.getEnumType(symbol)
-      : kind == "reexport" ? cx.getReferenceType(this.tc.getAliasedSymbol(symbol))
+      : kind == "reexport" ? cx.getReexportType(this.tc.getAliasedSymbol(symbol))
+      : kind == "namespace" ? {type: "namespace"}
       : cx.getType(type, symbol)
     if (params) typeDesc.typeParams = params
+    if (symbol.flags & SymbolFlags.SetAccessor) cx.addWriteType(symbol, type, binding)
+    if (tags) this.checkParamTags(tags, typeDesc.signatures ? applySignatureTags(typeDesc.signatures, tags) : [], binding)
+    // Namespaces, including those merged with a function, class, or
+    // enum, list their exported members in `properties`. Those of a
+    // class use the static separator, so that their ids don't collide
+    // with instance members. Interfaces and type aliases describe
+    // their own members in `properties`, so the members of namespaces
+    // merged with those go into `namespaceMembers`.
+    let module = symbol.flags & SymbolFlags.Alias ? this.tc.getAliasedSymbol(symbol) : symbol
+    if (kind != "reexport" && (module.flags & SymbolFlags.Module)) {
+      let exported = namespaceMembers(this.tc, module)
+      if (kind == "interface" || kind == "typealias") {
+        let members = cx.gatherSymbols(exported, {}, "^")
+        if (members) typeDesc.namespaceMembers = members
+      } else {
+        let members = cx.gatherSymbols(exported, typeDesc.properties, kind == "class" ? "^" : ".")
+        if (members) typeDesc.properties = members
+      }
+    }
     if (binding.description && /@nonabstract\b/.test(binding.description)) {
       binding.description = binding.description.replace(/\s*@nonabstract\b/, "")
       if (typeDesc.type == "class") {
@@ -161,13 +313,18 @@ class Context {
   }
 
   getEnumType(symbol: Symbol): BindingType {
-    let properties: {[name: string]: Item} = {}
-    this.gatherSymbols((decl(symbol) as EnumDeclaration).members
-                       .map(member => this.tc.getSymbolAtLocation(member.name)!), properties)
-    for (let n in properties) {
-      properties[n].type = symbol.name
-      properties[n].typeSource = this.nodePath(decl(symbol))
-    }
+    let properties: {[name: string]: Item} = {}, members = (decl(symbol) as EnumDeclaration).members
+    let memberSymbols = members.map(member => this.tc.getSymbolAtLocation(member.name)!)
+    this.gatherSymbols(memberSymbols, properties)
+    memberSymbols.forEach((memberSymbol, i) => {
+      let prop = properties[this.symbolName(memberSymbol)]
+      if (!prop) return
+      prop.type = symbol.name
+      prop.typeSource = this.nodePath(decl(symbol))
+      let value = this.tc.getConstantValue(members[i])
+      if (value != null) prop.value = value
+      else prop.computed = true
+    })
     return {type: "enum", properties}
   }
 
@@ -186,12 +343,18 @@ class Context {
     if (type.flags & TypeFlags.Void) return {type: "void"}
     if (type.flags & TypeFlags.TemplateLiteral) return {
       type: "TemplateLiteral",
-      typeArgs: (type as TemplateLiteralType).types.map(t => this.getType(t))
+      typeArgs: (type as TemplateLiteralType).types.map(t => this.getType(t)),
+      texts: (type as TemplateLiteralType).texts
     }
+    // Intrinsic string types like `Capitalize<T>`
+    if (type.flags & TypeFlags.StringMapping)
+      return this.getReferenceType(type.symbol, [(type as StringMappingType).type])
     // FIXME TypeScript doesn't export this. See https://github.com/microsoft/TypeScript/issues/26075, where they intend to fix that
     if (type.flags & TypeFlags.BooleanLiteral) return {type: (type as any).intrinsicName}
     if (type.flags & TypeFlags.Literal) return {type: JSON.stringify((type as LiteralType).value)}
     if (type.flags & TypeFlags.Never) return {type: "never"}
+    // Enums with computed members aren't unions of their members
+    if ((type.flags & TypeFlags.Enum) && type.symbol) return this.getReferenceType(type.symbol)
 
     if (type.flags & TypeFlags.UnionOrIntersection) {
       let types = (type as UnionOrIntersectionType).types, decl
@@ -219,8 +382,9 @@ class Context {
 
     if (type.flags & TypeFlags.TypeParameter) {
       let name = type.symbol.name, found = this.typeParams.find(p => p.name == name)
-      if (!found && maybeDecl(type.symbol)?.parent?.kind != SyntaxKind.InferType)
-        throw new Error(`Unknown type parameter ${name}`)
+      let declaration = maybeDecl(type.symbol)
+      if (!found && declaration?.parent?.kind != SyntaxKind.InferType)
+        return this.unsupported(`Unknown type parameter ${name}`, name, declaration)
       return {type: name, typeParamSource: found ? found.id : this.id}
     }
 
@@ -255,7 +419,7 @@ class Context {
       if (objFlags & ObjectFlags.Reference) {
         let target = (type as TypeReference).target
         if ((target.flags & TypeFlags.Object) && ((target as ObjectType).objectFlags & ObjectFlags.Tuple))
-          return {type: "tuple", typeArgs: (type as TypeReference).typeArguments!.map(t => this.getType(t))}
+          return this.getTupleType(type as TupleTypeReference)
       }
 
       if (objFlags & ObjectFlags.Mapped) {
@@ -283,6 +447,9 @@ class Context {
           typeArgs: [innerType ? cx.getType(this.tc.getTypeAtLocation(innerType)) : {type: "any"}]
         }
         if (typeParam) result.key = typeParam
+        if (decl?.readonlyToken) result.readonlyToken = modifierToken(decl.readonlyToken, "readonly")
+        if (decl?.questionToken) result.questionToken = modifierToken(decl.questionToken, "?")
+        if (decl?.nameType) result.nameType = cx.getType(this.tc.getTypeAtLocation(decl.nameType))
         return result
       }
 
@@ -306,7 +473,27 @@ class Context {
       let pos = getLineAndCharacterOfPosition(maybeD.getSourceFile(), maybeD.pos)
       maybePath = ` at ${this.nodePath(maybeD)}:${pos.line - 1}:${pos.character - 1}`
     }
-    throw new Error(`Unsupported type ${this.tc.typeToString(type)} with flags ${type.flags}${maybePath}`)
+    let text = this.tc.typeToString(type)
+    return this.unsupported(`Unsupported type ${text} with flags ${type.flags}${maybePath}`, text, maybeD)
+  }
+
+  // Setter-only properties are marked as `writeonly`. For properties
+  // whose setter takes a different type than their getter returns,
+  // that type is stored as `writeType`.
+  addWriteType(symbol: Symbol, readType: Type, binding: Binding) {
+    if (!(symbol.flags & SymbolFlags.GetAccessor)) {
+      binding.writeonly = true
+      return
+    }
+    let setter = (symbol.declarations || []).find(isSetAccessorDeclaration)
+    if (!setter || !setter.parameters.length) return
+    let writeType = this.tc.getTypeAtLocation(setter.parameters[0])
+    if (binding.optional) writeType = this.tc.getNonNullableType(writeType)
+    // Separately written types (such as object literal types) are
+    // distinct objects even when they are the same, so compare their
+    // descriptions, ignoring source locations
+    let write = this.getType(writeType)
+    if (describedKey(write) != describedKey(this.getType(readType))) binding.writeType = write
   }
 
   getObjectType(type: ObjectType, interfaceSymbol?: Symbol): BindingType {
@@ -320,12 +507,17 @@ class Context {
       let strIndex = type.getStringIndexType(), numIndex = type.getNumberIndexType(), indexItem: Item | undefined | null
       let intDecl = interfaceSymbol && maybeDecl(interfaceSymbol)
       let members: readonly TypeElement[] | undefined
+      let inherited: Symbol[] = [], baseProps: string[] = []
       if (intDecl && isInterfaceDeclaration(intDecl)) {
         let declared = intDecl.members.filter(member => member.name).map(member => this.tc.getSymbolAtLocation(member.name!)!.name)
+        if (this.spec.includeInherited) inherited = props.filter(prop => !declared.includes(prop.name))
         props = props.filter(prop => declared.includes(prop.name))
         members = intDecl.members
-        if (intDecl.heritageClauses && intDecl.heritageClauses.length)
-          out.implements = intDecl.heritageClauses[0].types.map(node => this.getType(this.tc.getTypeAtLocation(node)))
+        if (intDecl.heritageClauses && intDecl.heritageClauses.length) {
+          let bases = intDecl.heritageClauses[0].types.map(node => this.tc.getTypeAtLocation(node))
+          for (let base of bases) for (let prop of base.getProperties()) baseProps.push(prop.name)
+          out.implements = bases.map(base => this.getType(base))
+        }
       }
 
       if (strIndex || numIndex) {
@@ -349,7 +541,8 @@ class Context {
         out.signatures = call.map(s => this.getCallSignature(s, "function"))
           .concat(ctor.map(s => this.getCallSignature(s, "constructor")))
 
-      let propObj = this.gatherSymbols(props)
+      let propObj = this.gatherSymbols(props, undefined, undefined, this.spec.includeInherited ? markOverrides(baseProps) : undefined)
+      if (inherited.length) propObj = this.gatherInherited(inherited, propObj || {}, interfaceSymbol!)
       if (indexItem) (propObj || (propObj = {}))[`[${strIndex ? "string" : "number"}]`] = indexItem
       if (propObj) out.properties = propObj
       return out
@@ -363,12 +556,15 @@ class Context {
     let classDecl = type.symbol.valueDeclaration
     if (!classDecl || !isClassLike(classDecl)) throw new Error("Class decl isn't class-like")
 
-    let parentProps: string[] = []
+    let parentProps: string[] = [], baseProps: string[] = []
     if (classDecl.heritageClauses) {
       for (let heritage of classDecl.heritageClauses) {
         let parents = heritage.types.map(node => {
           let type = this.tc.getTypeAtLocation(node)
-          for (let sym of type.getProperties()) parentProps.push(sym.name)
+          for (let sym of type.getProperties()) {
+            parentProps.push(sym.name)
+            if (heritage.token == SyntaxKind.ExtendsKeyword) baseProps.push(sym.name)
+          }
           return this.getType(type)
         })
         if (heritage.token == SyntaxKind.ExtendsKeyword) out.extends = parents[0]
@@ -382,7 +578,9 @@ class Context {
       if (member.kind == SyntaxKind.Constructor) {
         ctors.push(member)
         for (let param of (member as ConstructorDeclaration).parameters) {
-          if (getCombinedModifierFlags(param) & (ModifierFlags.Public | ModifierFlags.Readonly))
+          let paramMods = getCombinedModifierFlags(param)
+          if ((paramMods & (ModifierFlags.Public | ModifierFlags.Readonly)) ||
+              (paramMods & ModifierFlags.Protected) && this.spec.includeProtected)
             definedProps.push(this.tc.getSymbolAtLocation(param.name)!.name)
         }
       } else if (getCombinedModifierFlags(member) & ModifierFlags.Static) {
@@ -395,12 +593,14 @@ class Context {
     let ctorItem, ctorSignatures = []
     for (let ctor of ctors) {
       let signature = type.getConstructSignatures().find(sig => sig.getDeclaration() == ctor)
-      if (!signature || (getCombinedModifierFlags(ctor) & (ModifierFlags.Private | ModifierFlags.Protected))) continue
       let item: Binding & BindingType = {kind: "constructor", id: this.id + ".constructor", type: "Function"}
-      this.addSourceData([ctor], item)
-      if (isHidden(item.description)) continue
+      if (!signature || !this.isAccessible(getCombinedModifierFlags(ctor), item)) continue
+      let tags = this.addSourceData([ctor], item)
+      if (this.hide(type.symbol.members?.get(InternalSymbolName.Constructor), item, tags?.comment)) continue
       if (!ctorItem || item.description) ctorItem = item
-      ctorSignatures.push(this.extend("constructor", ".").getCallSignature(signature, "constructor", true))
+      let sig = this.extend("constructor", ".").getCallSignature(signature, "constructor", true)
+      if (tags) this.checkParamTags(tags, applySignatureTags([sig], tags), item)
+      ctorSignatures.push(sig)
       break
     }
 
@@ -412,10 +612,12 @@ class Context {
     // FIXME I haven't found a less weird way to get the instance type
     let ctorType = type.getConstructSignatures()[0]
     if (ctorType) {
-      let protoProps = ctorType.getReturnType().getProperties().filter(prop => definedProps.includes(prop.name))
-      let instanceObj = this.gatherSymbols(protoProps, undefined, undefined, (name, value) => {
-        return !!value.description || !parentProps.includes(name)
-      })
+      let instanceProps = ctorType.getReturnType().getProperties()
+      let protoProps = instanceProps.filter(prop => definedProps.includes(prop.name))
+      let instanceObj = this.gatherSymbols(protoProps, undefined, undefined, this.spec.includeInherited ? markOverrides(baseProps)
+        : (name, value) => !!value.description || !parentProps.includes(name))
+      if (this.spec.includeInherited)
+        instanceObj = this.gatherInherited(instanceProps.filter(prop => !definedProps.includes(prop.name)), instanceObj || {}, type.symbol)
       if (instanceObj) out.instanceProperties = instanceObj
     }
 
@@ -426,9 +628,39 @@ class Context {
     return out
   }
 
+  // Rest elements are stored as their element type, but represented
+  // as array types here, like rest parameters.
+  getTupleType(type: TupleTypeReference): BindingType {
+    let {elementFlags, labeledElementDeclarations: labels, readonly} = type.target
+    let typeArgs: BindingType[] = [], elements: TupleElement[] = []
+    type.typeArguments!.slice(0, elementFlags.length).forEach((arg, i) => {
+      let flags = elementFlags[i], label = labels && labels[i], element: TupleElement = {}
+      if (flags & ElementFlags.Optional) arg = this.tc.getNonNullableType(arg)
+      typeArgs.push(flags & ElementFlags.Rest ? {type: "Array", typeArgs: [this.getType(arg)]} : this.getType(arg))
+      if (label && isIdentifier(label.name)) element.name = label.name.text
+      if (flags & ElementFlags.Optional) element.optional = true
+      if (flags & ElementFlags.Variable) element.rest = true
+      elements.push(element)
+    })
+    let result: BindingType = {type: "tuple", typeArgs}
+    if (elements.some(e => e.name || e.optional || e.rest)) result.elements = elements
+    if (readonly) result.readonlyTuple = true
+    return result
+  }
+
+  // Re-exports refer to the exported name, which isn't qualified by
+  // the namespaces that the module declares it in
+  getReexportType(symbol: Symbol): BindingType {
+    let result = this.getReferenceType(symbol)
+    if (result.type != "unsupported") result.type = symbol.name
+    return result
+  }
+
   getReferenceType(symbol: Symbol, typeArgs?: readonly Type[], arityType?: Type) {
-    let result: BindingType = {type: symbol.name}
-    let typeSource = this.nodePath(decl(symbol))
+    let declaration = maybeDecl(symbol)
+    if (!declaration) return this.unsupported(`No declaration available for symbol ${symbol.escapedName}`, symbol.name)
+    let result: BindingType = {type: qualifiedName(symbol, declaration)}
+    let typeSource = this.nodePath(declaration)
     if (!isBuiltin(typeSource)) result.typeSource = typeSource
     if (typeArgs) {
       let targetParams = arityType ? (arityType as TypeReference).target.typeParameters : null
@@ -461,7 +693,11 @@ class Context {
 
   getParams(signature: Signature): Param[] {
     return signature.getParameters().map(param => {
-      let cx = this.extend(param), optional = false, type = cx.symbolType(param)
+      let cx = this.extend(param)
+      if (!maybeDecl(param))
+        return {id: cx.id, kind: "parameter", name: param.name,
+                ...cx.unsupported(`No declaration available for parameter ${param.escapedName}`, param.name)}
+      let optional = false, type = cx.symbolType(param)
       let decl = param.valueDeclaration as (ParameterDeclaration | undefined)
       if (decl && decl.questionToken) {
         optional = true
@@ -526,6 +762,14 @@ class Context {
     if (!suppressReturn) {
       let ret = signature.getReturnType()
       if (!(ret.flags & TypeFlags.Void)) out.returns = cx.extend("returns").getType(ret)
+      let pred = this.tc.getTypePredicateOfSignature(signature)
+      if (pred) {
+        let isThis = pred.kind == TypePredicateKind.This || pred.kind == TypePredicateKind.AssertsThis
+        out.predicate = {param: isThis ? "this" : pred.parameterName!}
+        if (pred.type) out.predicate.type = cx.extend("returns").getType(pred.type)
+        if (pred.kind == TypePredicateKind.AssertsThis || pred.kind == TypePredicateKind.AssertsIdentifier)
+          out.predicate.asserts = true
+      }
     }
     gettingCallSignatures.pop()
     return out
@@ -542,21 +786,93 @@ class Context {
     return relative(this.basedir, node.getSourceFile().fileName)
   }
 
-  addSourceData(nodes: readonly Node[], target: Binding | Param, comments = true) {
+  // Whether a member with the given modifiers is included. Private
+  // members never are, and protected ones only when the spec enables
+  // `includeProtected`, in which case they are marked as such.
+  isAccessible(mods: ModifierFlags, target: Binding) {
+    if (mods & ModifierFlags.Private) return false
+    if (mods & ModifierFlags.Protected) {
+      if (!this.spec.includeProtected) return false
+      target.access = "protected"
+    }
+    return true
+  }
+
+  // Check whether an item should be hidden, because its description
+  // contains a hiding tag or the spec's `isHidden` predicate returns
+  // true. When the spec includes hidden items, such items are marked
+  // as internal instead.
+  hide(symbol: Symbol | undefined, target: Binding, comment: string | undefined) {
+    let visibility = this.spec.visibility || {}
+    let names = ["internal", "hide", ...visibility.hiddenTags || []].map(tag => tag.replace(/[^\w-]/g, "\\$&"))
+    let tags = new RegExp(`\\s*@(${names.join("|")})(?!\\w)`, "g")
+    let hidden = !!target.description && tags.test(target.description) ||
+      !!(symbol && visibility.isHidden && visibility.isHidden(symbol, comment))
+    if (!hidden || !visibility.includeHidden) return hidden
+    target.internal = true
+    if (target.description) {
+      let description = target.description.replace(tags, "").trim()
+      if (description) target.description = description
+      else delete target.description
+    }
+    return false
+  }
+
+  warn(warning: Warning) {
+    if (this.spec.onWarning) this.spec.onWarning(warning)
+  }
+
+  // Called for types that can't be described. Throws an error, unless
+  // the spec enables `recover`, in which case a warning is emitted
+  // and a placeholder type, which holds the warning, is returned.
+  unsupported(message: string, text: string, node?: Node): BindingType {
+    if (!this.spec.recover) throw new Error(message)
+    let warning: Warning = {message, id: this.id}
+    if (node) warning.loc = this.nodeLoc(node)
+    this.warn(warning)
+    return {type: "unsupported", text, warning}
+  }
+
+  // Warn about `@param` tags that don't match any parameter.
+  checkParamTags(tags: SignatureTags, used: readonly string[], target: Binding) {
+    for (let name in tags.params) if (!used.includes(name))
+      this.warn({message: `@param tag for unknown parameter ${name}`, id: target.id, loc: target.loc})
+  }
+
+  // Adds the description and location of the given declarations to
+  // target. Returns the @param and @returns tags found in the
+  // comment, if any, so that callers can attach them to signatures.
+  addSourceData(nodes: readonly Node[], target: Binding | Param, comments = true): ParsedComment | null {
+    let tags: ParsedComment | null = null
     if (comments) {
       let comment = ""
       for (let node of nodes) {
-        let c = getComments(node.kind == SyntaxKind.VariableDeclaration ? node.parent.parent : node)
+        let c = getComments(node.kind == SyntaxKind.VariableDeclaration ? node.parent.parent
+          : node.kind == SyntaxKind.NamespaceExport ? node.parent : node)
         if (c) comment += (comment ? "\n\n" : "") + c
       }
-      if (comment) target.description = comment
+      if (comment) {
+        let doc = parseTags(comment), binding = target as Binding
+        if (doc.description) target.description = doc.description
+        if (doc.deprecated != null) binding.deprecated = doc.deprecated
+        if (doc.since != null) binding.since = doc.since
+        if (doc.see.length) binding.see = doc.see
+        if (doc.examples.length) binding.examples = doc.examples
+        tags = doc
+      }
     }
-    const sourceFile = nodes[0].getSourceFile()
-    if (!sourceFile) return // Synthetic node
-    let {pos} = nodes[0]
+    let loc = this.nodeLoc(nodes[0])
+    if (loc) target.loc = loc
+    return tags
+  }
+
+  nodeLoc(node: Node): Loc | undefined {
+    const sourceFile = node.getSourceFile()
+    if (!sourceFile) return undefined // Synthetic node
+    let {pos} = node
     while (isWhiteSpaceLike(sourceFile.text.charCodeAt(pos))) ++pos
     const {line, character} = getLineAndCharacterOfPosition(sourceFile, pos)
-    target.loc = {file: this.nodePath(nodes[0]), line: line + 1, column: character}
+    return {file: this.nodePath(node), line: line + 1, column: character}
   }
 
   // Tells whether a symbol is either exported or external, and thus
@@ -577,6 +893,84 @@ function maybeDecl(symbol: Symbol): Declaration | undefined {
   return symbol.valueDeclaration || (symbol.declarations && symbol.declarations[0])
 }
 
+// A filter for `gatherSymbols` that marks members that also appear
+// in a base type.
+function markOverrides(baseProps: readonly string[]) {
+  return (name: string, item: Item) => {
+    if (baseProps.includes(name)) item.overrides = true
+    return true
+  }
+}
+
+// The class or interface (or type alias for an object type) that
+// declares a member.
+function declaringType(tc: TypeChecker, symbol: Symbol) {
+  let owner = maybeDecl(symbol)?.parent
+  if (owner && owner.kind == SyntaxKind.TypeLiteral && owner.parent.kind == SyntaxKind.TypeAliasDeclaration) owner = owner.parent
+  let name = owner && (owner as NamedDeclaration).name
+  return name ? tc.getSymbolAtLocation(name) : undefined
+}
+
+// The text of a mapped type modifier, which may be preceded by a
+// `+` or `-` token.
+function modifierToken<T extends string>(token: Node, modifier: T) {
+  return (token.kind == SyntaxKind.PlusToken ? "+" + modifier : token.kind == SyntaxKind.MinusToken ? "-" + modifier
+          : modifier) as T | `+${T}` | `-${T}`
+}
+
+// Initializers longer than this aren't included in the output
+const maxInitializerLength = 100
+
+// Literals, and array and object literals containing only literals.
+function isSimpleInitializer(node: Expression): boolean {
+  if (node.getEnd() - node.getStart() > maxInitializerLength) return false
+  switch (node.kind) {
+    case SyntaxKind.StringLiteral: case SyntaxKind.NumericLiteral: case SyntaxKind.BigIntLiteral:
+    case SyntaxKind.NoSubstitutionTemplateLiteral: case SyntaxKind.RegularExpressionLiteral:
+    case SyntaxKind.TrueKeyword: case SyntaxKind.FalseKeyword: case SyntaxKind.NullKeyword:
+      return true
+    case SyntaxKind.PrefixUnaryExpression:
+      return (node as PrefixUnaryExpression).operator == SyntaxKind.MinusToken &&
+        isSimpleInitializer((node as PrefixUnaryExpression).operand)
+    case SyntaxKind.ArrayLiteralExpression:
+      return (node as ArrayLiteralExpression).elements.every(isSimpleInitializer)
+    case SyntaxKind.ObjectLiteralExpression:
+      return (node as ObjectLiteralExpression).properties.every(prop => isPropertyAssignment(prop) &&
+                                                                        isSimpleInitializer(prop.initializer))
+    case SyntaxKind.AsExpression:
+      return (node as AsExpression).type.kind == SyntaxKind.TypeReference &&
+        ((node as AsExpression).type as TypeReferenceNode).typeName.getText() == "const" &&
+        isSimpleInitializer((node as AsExpression).expression)
+  }
+  return false
+}
+
+// The exported members of a namespace or module. When a namespace is
+// merged with a class or enum, TypeScript stores the static members
+// and enum members in the same table, so those are filtered out.
+// The name of a symbol, prefixed with the names of the namespaces
+// that it is declared in (as in `NS.Type`). Unexported namespaces in
+// modules (such as the target of an `export =`) aren't visible to
+// importers, and end the qualified name.
+function qualifiedName(symbol: Symbol, declaration: Node) {
+  let name = symbol.name
+  for (let node = declaration.parent; node; node = node.parent) {
+    if (!isModuleDeclaration(node) || !isIdentifier(node.name) || (node.flags & NodeFlags.GlobalAugmentation)) continue
+    if (isExternalModule(node.getSourceFile()) && !(getCombinedModifierFlags(node) & ModifierFlags.Export)) break
+    name = node.name.text + "." + name
+  }
+  return name
+}
+
+function describedKey(type: BindingType) {
+  return JSON.stringify(type, (key, value) => key == "loc" ? undefined : value)
+}
+
+function namespaceMembers(tc: TypeChecker, symbol: Symbol) {
+  return tc.getExportsOfModule(symbol)
+    .filter(s => !(s.flags & (SymbolFlags.ClassMember | SymbolFlags.Prototype | SymbolFlags.EnumMember)))
+}
+
 function decl(symbol: Symbol) {
   let result = maybeDecl(symbol)
   if (!result) throw new Error(`No declaration available for symbol ${symbol.escapedName}`)
@@ -647,7 +1041,13 @@ function getComments(node: Node) {
         const doc = text.charCodeAt(pos + 2) == 42, start = pos + (doc ? 3 : 2)
         for (pos = start; pos < text.length; ++pos)
           if (text.charCodeAt(pos) === 42 /* asterisk */ && text.charCodeAt(pos + 1) === 47 /* slash */) break
-        if (doc) add(text.slice(start, pos))
+        if (doc) {
+          // Add the lines separately, so that their `*` prefixes get
+          // stripped, skipping the empty line after an opening `/**`
+          let blockLines = text.slice(start, pos).split(/\r?\n/)
+          if (blockLines.length > 1 && !/\S/.test(blockLines[0])) blockLines.shift()
+          for (let line of blockLines) add(line)
+        }
         pos += 2
       }
     } else if (isWhiteSpaceLike(ch)) {
@@ -704,13 +1104,137 @@ function stripComment(lines: string[]) {
   return lines.join("\n")
 }
 
-function isHidden(description: string | undefined) {
-  return description && /@(internal|hide)\b/.test(description)
+type SignatureTags = {params: {[name: string]: string}, returns?: string}
+
+type ParsedComment = SignatureTags & {
+  comment: string,
+  description: string,
+  deprecated?: string,
+  since?: string,
+  see: string[],
+  examples: string[]
+}
+
+const blockTags = ["param", "returns", "return", "deprecated", "since", "see", "example"]
+
+// Split the known block tags out of a comment. A tag starts at a line
+// beginning with @tag, and runs until the next line that starts with
+// a tag (outside of code blocks). Unknown tags, like @internal, are
+// left in the description.
+function parseTags(comment: string): ParsedComment {
+  let rest: string[] = [], tags: {tag: string, lines: string[]}[] = []
+  let current = rest, inCode = false
+  for (let line of comment.split("\n")) {
+    let m = !inCode && /^\s*@(\w+)(?:\s+|$)(.*)$/.exec(line)
+    if (m) {
+      if (blockTags.includes(m[1])) {
+        tags.push({tag: m[1], lines: [m[2]]})
+        current = tags[tags.length - 1].lines
+        continue
+      }
+      current = rest
+    }
+    if (/^\s*```/.test(line)) inCode = !inCode
+    current.push(line)
+  }
+
+  let result: ParsedComment = {comment, description: trimLines(rest), params: {}, see: [], examples: []}
+  for (let {tag, lines} of tags) {
+    let text = trimLines(lines)
+    if (tag == "param") {
+      let m = /^(?:\{[^}]*\}\s*)?(\[[^\]]*\]|[\w$]+)\s*(?:-\s*)?([^]*)$/.exec(text)
+      if (m) result.params[m[1].replace(/^\[|(=[^]*)?\]$/g, "")] = m[2]
+    } else if (tag == "returns" || tag == "return") {
+      result.returns = text
+    } else if (tag == "deprecated") {
+      result.deprecated = text
+    } else if (tag == "since") {
+      result.since = text
+    } else if (tag == "see") {
+      result.see.push(text)
+    } else {
+      let indent = Math.min(...text.split("\n").filter(l => /\S/.test(l)).map(l => /^\s*/.exec(l)![0].length))
+      result.examples.push(text.split("\n").map(l => l.slice(indent)).join("\n"))
+    }
+  }
+  return result
+}
+
+function trimLines(lines: string[]) {
+  let start = 0, end = lines.length
+  while (start < end && !/\S/.test(lines[start])) start++
+  while (end > start && !/\S/.test(lines[end - 1])) end--
+  return lines.slice(start, end).join("\n").replace(/\s+$/, "")
 }
 
+// Apply @param and @returns tags to a set of signatures. Parameters
+// without a name (destructuring patterns) are matched to the tag at
+// their position, unless that tag names another parameter. Returns
+// the names of the tags that matched a parameter.
+function applySignatureTags(signatures: readonly CallSignature[], tags: SignatureTags) {
+  let names: string[] = [], tagNames = Object.keys(tags.params)
+  for (let sig of signatures) {
+    sig.params.forEach((param, i) => {
+      let name = param.name
+      if (!name) {
+        name = tagNames[i]
+        if (!name || sig.params.some(p => p.name == name)) return
+      }
+      names.push(name)
+      if (!param.description && tags.params[name]) param.description = tags.params[name]
+    })
+    if (sig.returns && tags.returns) sig.returns.description = tags.returns
+  }
+  return names
+}
+
+
 export interface GatherSpec {
   filename: string
   basedir?: string
+  // The config file to use. Defaults to the closest `tsconfig.json`
+  // to `filename`.
+  tsconfig?: string
+  // Compiler options, in the format used in `tsconfig.json`, that
+  // override the ones from the config file.
+  compilerOptions?: {[option: string]: any}
+  // Controls which items are left out of the output.
+  visibility?: Visibility
+  // When true, protected class members and constructors are included,
+  // with their `access` field set to `"protected"`.
+  includeProtected?: boolean
+  // When true, the members that classes and interfaces inherit from
+  // their base types are included, with an `inheritedFrom` field.
+  includeInherited?: boolean
+  // When true, references in doc comments are resolved, and stored
+  // in the `links` property of the items that contain them.
+  resolveLinks?: boolean
+  // When true, types that can't be described don't raise an error.
+  // Instead, a warning is emitted and the type is represented as
+  // `{type: "unsupported", text, warning}`.
+  recover?: boolean
+  // When set, TypeScript's diagnostics for the entry file, and the
+  // files inside `basedir` that it imports, are collected. With
+  // `"warn"`, they are passed to `onWarning`. With `"error"`,
+  // gathering fails when there are type errors.
+  diagnostics?: "warn" | "error"
+  // Called with warnings, such as unresolved references or `@param`
+  // tags for parameters that don't exist. When not given, warnings
+  // are ignored.
+  onWarning?: (warning: Warning) => void
+}
+
+export interface Visibility {
+  // Tags, besides `@internal` and `@hide`, that cause the items whose
+  // doc comments contain them to be hidden.
+  hiddenTags?: readonly string[]
+  // When true, hidden items are included in the output, marked with
+  // `internal: true`, and the hiding tags are removed from their
+  // descriptions.
+  includeHidden?: boolean
+  // Called with the symbol and raw doc comment of items. Items for
+  // which this returns true are hidden.
+  isHidden?: (symbol: Symbol, comment: string | undefined) => boolean
 }
 
 export function gather(spec: GatherSpec) {
@@ -718,29 +1242,103 @@ export function gather(spec: GatherSpec) {
 }
 
 export function gatherMany(specs: readonly GatherSpec[]): readonly {[name: string]: Item}[] {
-  let filenames = specs.map(s => s.filename)
-  let configPath = findConfigFile(filenames[0], sys.fileExists)
-  let host = createCompilerHost({})
-  let options = configPath ? getParsedCommandLineOfConfigFile(configPath, {}, host as any)!.options : {}
-  let program = createProgram({rootNames: filenames, options, host})
+  return gatherGroups(specs, members => {
+    let {options, configPath} = loadConfig(members[0])
+    let host = createCompilerHost({})
+    return {program: createProgram({rootNames: members.map(s => s.filename), options, host}), configPath}
+  })
+}
+
+// The directory that relative paths passed to `gatherSources` are
+// resolved against.
+const virtualRoot = resolve("/virtual")
+
+// Gather from in-memory sources. `files` maps paths to file contents,
+// and the filenames in `specs` refer to paths in that map. Relative
+// paths are resolved against a virtual root directory, which is also
+// the default `basedir`. Files not in the map, such as TypeScript's
+// lib files, are read from disk. Config files aren't used, but specs
+// can provide `compilerOptions`.
+export function gatherSources(files: {[path: string]: string}, specs: readonly GatherSpec[]): readonly {[name: string]: Item}[] {
+  let absolute: {[path: string]: string} = Object.create(null)
+  for (let path in files) absolute[resolve(virtualRoot, path)] = files[path]
+  let resolved = specs.map(spec => ({...spec, filename: resolve(virtualRoot, spec.filename),
+                                     basedir: resolve(virtualRoot, spec.basedir || "")}))
+  return gatherGroups(resolved, members => {
+    let {options} = loadConfig(members[0], true)
+    let host = virtualHost(options, absolute)
+    return {program: createProgram({rootNames: members.map(s => s.filename), options, host}), configPath: undefined}
+  }, true)
+}
+
+// Gather specs, creating a program for each group of specs that
+// share a configuration with `createGroupProgram`.
+function gatherGroups(specs: readonly GatherSpec[],
+                      createGroupProgram: (specs: readonly GatherSpec[]) => {program: Program, configPath: string | undefined},
+                      virtual = false) {
+  let results: {[name: string]: Item}[] = [], linkSpecs: LinkSpec[] = []
+  // Specs with different configurations can't share a program
+  for (let group of groupSpecs(specs, virtual)) {
+    let members = group.map(i => specs[i])
+    let {program, configPath} = createGroupProgram(members)
+    gatherSpecs(program, members, configPath, null, linkSpecs).forEach((items, i) => results[group[i]] = items)
+  }
+  if (specs.some(s => s.resolveLinks)) resolveLinks(linkSpecs)
+  return results
+}
+
+// Gather the items for a set of specs from an existing program, which
+// must include the specs' files. When `reuse` holds items for a spec,
+// those are returned instead of gathering that spec again.
+export function gatherFromProgram(program: Program, specs: readonly GatherSpec[], configPath?: string,
+                                  reuse?: readonly ({[name: string]: Item} | null)[]): readonly {[name: string]: Item}[] {
+  let linkSpecs: LinkSpec[] = []
+  let result = gatherSpecs(program, specs, configPath, reuse || null, linkSpecs)
+  if (specs.some(s => s.resolveLinks)) resolveLinks(linkSpecs)
+  return result
+}
+
+function gatherSpecs(program: Program, specs: readonly GatherSpec[], configPath: string | undefined,
+                     reuse: readonly ({[name: string]: Item} | null)[] | null, linkSpecs: LinkSpec[]) {
   let tc = program.getTypeChecker()
-  return specs.map(({filename, basedir}) => {
-    let items: {[name: string]: Item} = Object.create(null)
-    let sourceFile = program.getSourceFile(filename)
-    if (!sourceFile) throw new Error(`Source file "${filename}" not found`)
-    let fileSymbol = tc.getSymbolAtLocation(sourceFile)
-    if (!fileSymbol) throw new Error(`No symbol for file "${filename}" (no exports?)`)
-    let exports = tc.getExportsOfModule(fileSymbol)
-
-    // Add all symbols aliased by exports to the set of things that
-    // should be considered exported
-    let closedExports = exports.slice()
-    for (let i = 0; i < closedExports.length; i++) {
-      let sym = closedExports[i], alias = (sym.flags & SymbolFlags.Alias) ? tc.getAliasedSymbol(sym) : null
-      if (alias && !closedExports.includes(alias)) closedExports.push(alias)
-    }
-
-    new Context(tc, closedExports, resolve(basedir || dirname(configPath || filename)), "", []).gatherSymbols(exports, items, "")
+  return specs.map((spec, i) => {
+    let basedir = specBasedir(spec, configPath), warn = spec.onWarning || ignoreWarning
+    let items = reuse && reuse[i]
+    if (!items) {
+      if (spec.diagnostics) reportDiagnostics(program, spec, basedir, warn)
+      items = gatherFile(tc, program, spec, basedir)
+    }
+    linkSpecs.push({items, basedir, program, resolve: !!spec.resolveLinks, warn})
     return items
   })
 }
+
+function reportDiagnostics(program: Program, spec: GatherSpec, basedir: string, warn: (warning: Warning) => void) {
+  let {warnings, hasErrors} = fileDiagnostics(program, spec.filename, basedir)
+  if (hasErrors && spec.diagnostics == "error")
+    throw new Error(`Type errors in "${spec.filename}":\n` +
+                    warnings.map(formatWarning).join("\n"))
+  warnings.forEach(warn)
+}
+
+function gatherFile(tc: TypeChecker, program: Program, spec: GatherSpec, basedir: string) {
+  let {filename} = spec, items: {[name: string]: Item} = Object.create(null)
+  let sourceFile = program.getSourceFile(filename)
+  if (!sourceFile) throw new Error(`Source file "${filename}" not found`)
+  let fileSymbol = tc.getSymbolAtLocation(sourceFile)
+  if (!fileSymbol) throw new Error(`No symbol for file "${filename}" (no exports?)`)
+  let exports = tc.getExportsOfModule(fileSymbol)
+
+  // Add all symbols aliased by exports to the set of things that
+  // should be considered exported
+  let closedExports = exports.slice()
+  for (let i = 0; i < closedExports.length; i++) {
+    let sym = closedExports[i], alias = (sym.flags & SymbolFlags.Alias) ? tc.getAliasedSymbol(sym) : null
+    if (alias && !closedExports.includes(alias)) closedExports.push(alias)
+    if (sym.flags & SymbolFlags.Module) for (let member of namespaceMembers(tc, sym))
+      if (!closedExports.includes(member)) closedExports.push(member)
+  }
+
+  new Context(tc, closedExports, basedir, "", [], spec).gatherSymbols(exports, items, "")
+  return items
+}
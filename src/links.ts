@@ -0,0 +1,93 @@
+import {Program, TypeChecker, Symbol, SymbolFlags, SourceFile, escapeLeadingUnderscores} from "typescript"
+
+import {resolve, relative} from "path"
+
+import {Item, Param, Link, Warning} from "./index"
+import {walkItems} from "./walk"
+
+// Matches [`name`], [text](#name), and {@link name} references.
+const refRE = /\[`([^`\]]+)`\](?![\(\[])|\]\(#([^)\s]+)\)|\{@link(?:code|plain)?\s+([^\s|}]+)[^}]*\}/g
+
+// Find the names referenced in a piece of doc text.
+export function findReferences(text: string) {
+  let result: string[] = [], m
+  refRE.lastIndex = 0
+  while (m = refRE.exec(text)) {
+    let name = m[1] || m[2] || m[3]
+    if (!result.includes(name)) result.push(name)
+  }
+  return result
+}
+
+export function formatWarning(warning: Warning) {
+  return (warning.loc ? `${warning.loc.file}:${warning.loc.line}: ` : "") + warning.message
+}
+
+// The default warning handler, which ignores warnings.
+export function ignoreWarning(_warning: Warning) {}
+
+export type LinkSpec = {
+  items: {[name: string]: Item},
+  basedir: string,
+  program: Program,
+  resolve: boolean,
+  warn: (warning: Warning) => void
+}
+
+// Resolve the references in the descriptions of the items in the
+// given specs that have `resolve` set. References are looked up in
+// the ids of all specs, and then in the scope of the file that
+// declares the item, in the spec's program. Resolved references are
+// stored in the `links` property of the item, and unresolved ones are
+// reported as warnings.
+export function resolveLinks(specs: readonly LinkSpec[]) {
+  let ids = new Set<string>()
+  for (let spec of specs) walkItems(spec.items, item => ids.add(item.id), true)
+  let scopes = new Map<SourceFile, Symbol[]>()
+
+  for (let spec of specs) if (spec.resolve) {
+    let {program} = spec, tc = program.getTypeChecker()
+    walkItems(spec.items, target => {
+      let texts = [target.description, (target as Item).deprecated, ...((target as Item).see || [])]
+      let links: Link[] = []
+      for (let text of texts) if (text) for (let name of findReferences(text)) {
+        if (links.some(l => l.text == name)) continue
+        let id = [name, target.id + "^" + name, target.id + "." + name].find(id => ids.has(id))
+        if (id) {
+          links.push({text: name, id})
+          continue
+        }
+        let file = target.loc && program.getSourceFile(resolve(spec.basedir, target.loc.file))
+        let symbol = file && resolveSymbol(tc, file, name, scopes)
+        let decl = symbol && (symbol.valueDeclaration || (symbol.declarations && symbol.declarations[0]))
+        if (decl) {
+          let link: Link = {text: name}, source = relative(spec.basedir, decl.getSourceFile().fileName)
+          if (!/typescript\/lib\/.*\.d\.ts$/.test(source)) link.typeSource = source
+          links.push(link)
+        } else {
+          spec.warn({message: `Unresolved reference to ${name}`, id: target.id, loc: target.loc})
+        }
+      }
+      if (links.length) (target as Item | Param).links = links
+      else delete (target as Item | Param).links
+    }, true)
+  }
+}
+
+// Resolve a dotted name in the top-level scope of a file.
+function resolveSymbol(tc: TypeChecker, file: SourceFile, name: string, scopes: Map<SourceFile, Symbol[]>) {
+  let scope = scopes.get(file)
+  if (!scope) scopes.set(file, scope = tc.getSymbolsInScope(file, SymbolFlags.Value | SymbolFlags.Type | SymbolFlags.Namespace |
+                                                                    SymbolFlags.Alias))
+  let [first, ...rest] = name.split(/[.^#]/)
+  let symbol: Symbol | undefined = scope.find(s => s.name == first)
+  for (let part of rest) {
+    if (!symbol) break
+    if (symbol.flags & SymbolFlags.Alias) symbol = tc.getAliasedSymbol(symbol)
+    let key = escapeLeadingUnderscores(part)
+    symbol = symbol.exports?.get(key) || symbol.members?.get(key) ||
+      tc.getPropertyOfType(tc.getDeclaredTypeOfSymbol(symbol), part) ||
+      tc.getPropertyOfType(tc.getTypeOfSymbol(symbol), part)
+  }
+  return symbol
+}
@@ -0,0 +1,76 @@
+import {Item, Param, Warning, GatherSpec, gatherMany} from "./index"
+import {walkItems} from "./walk"
+import {paramName, kindName} from "./print"
+
+export type DocReport = {
+  // Undocumented items and parameters, and `@param` tags or
+  // references in descriptions that don't match a parameter
+  problems: Warning[],
+  // The number of items and parameters that should be documented
+  total: number,
+  // The number of those that are documented
+  documented: number,
+  // The percentage of documented items and parameters
+  coverage: number
+}
+
+// Kinds of items whose parameters should be documented.
+const signatureKinds = ["function", "method", "constructor"]
+
+// Names that may appear in code spans without referring to anything.
+const literalNames = ["true", "false", "null", "undefined", "this", "void", "never", "any", "unknown",
+                      "string", "number", "boolean", "object", "symbol", "bigint", "new", "typeof", "keyof"]
+
+// Check a set of items, as returned by `gather`, for missing
+// documentation. Descriptions of functions, methods, and
+// constructors that refer (in a code span, as in `` `name` `` or
+// ``[`name`]``) to a lowercase name that is neither one of their
+// parameters nor the name of an item are also reported, since those
+// usually refer to parameters that no longer exist.
+export function checkDocs(items: {[name: string]: Item}): DocReport {
+  let problems: Warning[] = [], total = 0, documented = 0
+  let names = new Set(literalNames)
+  walkItems(items, item => names.add(item.id.slice(Math.max(item.id.lastIndexOf("."), item.id.lastIndexOf("^")) + 1)))
+  let check = (target: Item | Param, what: string) => {
+    total++
+    if (target.description) documented++
+    else problems.push({message: `Missing documentation for ${what}`, id: target.id, loc: target.loc})
+  }
+  walkItems(items, item => {
+    // Inherited members are checked on the type that declares them
+    if (item.kind == "reexport" || (item as Item).inheritedFrom) return
+    check(item, `${kindName(item)} ${item.id}`)
+    if (!signatureKinds.includes(item.kind)) return
+    let params: string[] = []
+    for (let sig of item.signatures || []) for (let param of sig.params) {
+      check(param, `parameter ${paramName(param)} of ${item.id}`)
+      if (param.name) params.push(param.name)
+    }
+    for (let name of codeNames(item.description || ""))
+      if (!params.includes(name) && !names.has(name))
+        problems.push({message: `Description of ${item.id} refers to unknown parameter ${name}`, id: item.id, loc: item.loc})
+  })
+  return {problems, total, documented, coverage: total ? Math.floor(documented / total * 1000) / 10 : 100}
+}
+
+// The distinct lowercase identifiers that appear as code spans in a
+// piece of doc text.
+function codeNames(text: string) {
+  let result: string[] = [], re = /`([a-z_$][\w$]*)`/g, m
+  while (m = re.exec(text)) if (!result.includes(m[1])) result.push(m[1])
+  return result
+}
+
+// Gather the given specs and check their documentation, returning a
+// report for each spec. Warnings produced while gathering (such as
+// `@param` tags for parameters that don't exist) are included in
+// the problems.
+export function lintDocs(specs: readonly GatherSpec[]): DocReport[] {
+  let warnings: Warning[][] = specs.map(() => [])
+  let results = gatherMany(specs.map((spec, i) => ({...spec, onWarning: (w: Warning) => warnings[i].push(w)})))
+  return results.map((items, i) => {
+    let report = checkDocs(items)
+    report.problems = warnings[i].concat(report.problems)
+    return report
+  })
+}
@@ -0,0 +1,163 @@
+import {BindingType, CallSignature, TypePredicate, TupleElement, Param, Item} from "./index"
+
+// Formats binding types as TypeScript syntax. `text` is applied to
+// all plain source text (for example to escape it), and `ref` to the
+// names of type references and type parameters, so that callers can
+// wrap them in links.
+export class TypePrinter {
+  // Set while printing the extends clause of a conditional type,
+  // where type parameters that aren't in scope are inferred.
+  private inferring = false
+
+  constructor(readonly text: (s: string) => string = s => s,
+              readonly ref: (type: BindingType) => string = type => type.type) {}
+
+  // `prec` is 0 at the top level, 1 for members of union and
+  // intersection types, and 2 for operands of type operators.
+  type(type: BindingType, prec = 0): string {
+    let t = this.text, args = type.typeArgs
+    if (!type.typeSource && !type.typeParamSource) switch (type.type) {
+      case "union": case "intersection":
+        return this.parens(args!.map(a => this.type(a, 1)).join(t(type.type == "union" ? " | " : " & ")), prec > 0)
+      case "Function":
+        if (type.signatures && type.signatures.length == 1 && !type.properties)
+          return this.parens(this.signature(type.signatures[0], null, true), prec > 0)
+        if (type.signatures || type.properties) return this.objectLiteral(type)
+        break
+      case "Object": case "interface":
+        if (type.signatures || type.properties) return this.objectLiteral(type)
+        if (args) return t("{[key: string]: ") + this.type(args[0]) + t("}")
+        break
+      case "Array":
+        if (args && args.length == 1) return this.type(args[0], 2) + t("[]")
+        break
+      case "tuple": {
+        let tuple = t("[") + args!.map((a, i) => this.tupleElement(a, type.elements && type.elements[i])).join(t(", ")) + t("]")
+        return type.readonlyTuple ? this.parens(t("readonly ") + tuple, prec > 1) : tuple
+      }
+      case "keyof": case "typeof":
+        return this.parens(t(type.type + " ") + this.type(args![0], 2), prec > 1)
+      case "indexed":
+        return this.type(args![0], 2) + t("[") + this.type(args![1]) + t("]")
+      case "conditional": {
+        let check = this.type(args![0], 1), inferring = this.inferring
+        this.inferring = true
+        let ext = this.type(args![1], 1)
+        this.inferring = inferring
+        return this.parens(check + t(" extends ") + ext + t(" ? ") + this.type(args![2]) + t(" : ") + this.type(args![3]),
+                           prec > 0)
+      }
+      case "mapped": {
+        let out = t("{" + (type.readonlyToken ? type.readonlyToken + " " : "") + "[") + this.typeParam(type.key!, " in ")
+        if (type.nameType) out += t(" as ") + this.type(type.nameType)
+        return out + t("]" + (type.questionToken || "") + ": ") + this.type(args![0]) + t("}")
+      }
+      case "TemplateLiteral": {
+        let texts = type.texts || []
+        return t("`" + templateText(texts[0] || "")) +
+          args!.map((a, i) => t("${") + this.type(a) + t("}" + templateText(texts[i + 1] || ""))).join("") + t("`")
+      }
+      case "unsupported":
+        return this.parens(t(type.text || "any"), prec > 0)
+    }
+    let name = type.typeSource || type.typeParamSource ? this.ref(type) : t(type.type)
+    // Inferred type parameters aren't owned by a declared parameter
+    if (this.inferring && type.typeParamSource && !type.typeParamSource.endsWith("^" + type.type))
+      return this.parens(t("infer ") + name, prec > 1)
+    if (args) name += t("<") + args.map(a => this.type(a)).join(t(", ")) + t(">")
+    return name
+  }
+
+  // Format a signature. When `name` is given, it is printed in front
+  // of the parameter list. `arrow` selects arrow function syntax for
+  // the return type. Signatures without a return type are printed as
+  // returning void, except for class constructors. Type predicates
+  // take the place of the return type.
+  signature(sig: CallSignature, name: string | null, arrow = false) {
+    let t = this.text, out = ""
+    if (sig.type == "constructor") out += t("new ")
+    if (name) out += name
+    if (sig.typeParams) out += this.typeParams(sig.typeParams)
+    out += t("(") + sig.params.map(p => this.param(p)).join(t(", ")) + t(")")
+    if (sig.predicate)
+      out += t(arrow ? " => " : ": ") + this.predicate(sig.predicate)
+    else if (sig.returns || sig.type == "function")
+      out += t(arrow ? " => " : ": ") + (sig.returns ? this.type(sig.returns) : t("void"))
+    return out
+  }
+
+  tupleElement(type: BindingType, element: TupleElement = {}) {
+    let t = this.text, out = element.rest ? t("...") : ""
+    if (element.name) return out + t(element.name + (element.optional ? "?: " : ": ")) + this.type(type)
+    return out + this.type(type, element.optional ? 2 : 0) + (element.optional ? t("?") : "")
+  }
+
+  predicate(pred: TypePredicate) {
+    let t = this.text
+    return t((pred.asserts ? "asserts " : "") + pred.param) + (pred.type ? t(" is ") + this.type(pred.type) : "")
+  }
+
+  param(param: Param) {
+    let t = this.text, name = paramName(param)
+    let out = (param.rest ? t("...") : "") + t(name) + t(param.optional && !param.default ? "?: " : ": ") + this.type(param)
+    if (param.default) out += t(" = " + param.default)
+    return out
+  }
+
+  typeParams(params: readonly Param[]) {
+    return this.text("<") + params.map(p => this.typeParam(p)).join(this.text(", ")) + this.text(">")
+  }
+
+  typeParam(param: Param, constraint = " extends ") {
+    let t = this.text, out = this.ref({type: param.name!, typeParamSource: param.id})
+    if (param.implements) out += t(constraint) + this.type(param.implements[0])
+    if (param.default) out += t(" = " + param.default)
+    return out
+  }
+
+  objectLiteral(type: BindingType) {
+    let t = this.text, members: string[] = []
+    if (type.signatures) for (let sig of type.signatures) members.push(this.signature(sig, null))
+    if (type.properties) for (let name in type.properties)
+      members.push(...this.member(name, type.properties[name]))
+    return members.length ? t("{") + members.join(t(", ")) + t("}") : t("{}")
+  }
+
+  // The declarations for an object or class member, one per
+  // signature for methods. `key` can be used to format the member's
+  // name.
+  member(name: string, item: Item, key = (name: string) => this.text(name)): string[] {
+    let t = this.text
+    let prop = key(/^\[(string|number)\]$/.test(name) ? `[key: ${name.slice(1, -1)}]` : propertyName(name))
+    if (item.kind == "method" && item.signatures)
+      return item.signatures.map(sig => prop + t(item.optional ? "?" : "") + this.signature(sig, null))
+    // Accessors with a separate write type are printed as a getter and a setter
+    let setter = (type: BindingType) => t("set ") + prop + t("(value: ") + this.type(type) + t(")")
+    if (item.writeonly) return [setter(item)]
+    if (item.writeType) return [t("get ") + prop + t("(): ") + this.type(item), setter(item.writeType)]
+    return [t(item.readonly ? "readonly " : "") + prop + t(item.optional ? "?: " : ": ") + this.type(item)]
+  }
+
+  parens(text: string, parens: boolean) {
+    return parens ? this.text("(") + text + this.text(")") : text
+  }
+}
+
+// Parameters that are destructured have no name, so their
+// (generated) id is used instead.
+export function paramName(param: Param) {
+  return param.name || param.id.slice(param.id.lastIndexOf("^") + 1)
+}
+
+// A human-readable name for an item's kind.
+export function kindName(item: Item) {
+  return item.kind == "enummember" ? "enum member" : item.kind == "typealias" ? "type alias" : item.kind
+}
+
+function templateText(text: string) {
+  return text.replace(/[`\\]|\$\{/g, m => "\\" + m)
+}
+
+export function propertyName(name: string) {
+  return /^[\w$]+$/.test(name) && !/^\d/.test(name) || /^\[.*\]$/.test(name) ? name : JSON.stringify(name)
+}
@@ -0,0 +1,76 @@
+import {
+  findConfigFile, createCompilerHost, getParsedCommandLineOfConfigFile, convertCompilerOptionsFromJson,
+  flattenDiagnosticMessageText, sys,
+  CompilerOptions, CompilerHost, ScriptTarget, createSourceFile
+} from "typescript"
+
+import {resolve, dirname, sep} from "path"
+
+import {GatherSpec} from "./index"
+
+// Find and parse the config file for a spec. Uses the spec's
+// `tsconfig` when given, and otherwise looks for the closest config
+// file to its filename. The spec's `compilerOptions` override the
+// options from the config file. Specs for in-memory sources
+// (`virtual`) don't use a config file.
+export function loadConfig(spec: GatherSpec, virtual = false): {options: CompilerOptions, configPath: string | undefined} {
+  let configPath = virtual ? undefined : findConfig(spec)
+  if (configPath && !sys.fileExists(configPath)) throw new Error(`Config file "${configPath}" not found`)
+  let options = configPath ? getParsedCommandLineOfConfigFile(configPath, {}, createCompilerHost({}) as any)!.options : {}
+  if (spec.compilerOptions) {
+    let base = configPath ? dirname(configPath) : dirname(resolve(spec.filename))
+    let {options: extra, errors} = convertCompilerOptionsFromJson(spec.compilerOptions, base)
+    if (errors.length) throw new Error(`Invalid compiler options: ${flattenDiagnosticMessageText(errors[0].messageText, "\n")}`)
+    options = {...options, ...extra}
+  }
+  return {options, configPath}
+}
+
+function findConfig(spec: GatherSpec) {
+  return spec.tsconfig ? resolve(spec.tsconfig) : findConfigFile(spec.filename, sys.fileExists)
+}
+
+// The directory inside which files are considered internal to a
+// spec's module.
+export function specBasedir(spec: GatherSpec, configPath: string | undefined) {
+  return resolve(spec.basedir || dirname(configPath || spec.filename))
+}
+
+// Group specs by their effective configuration (config file and
+// compiler options), so that specs that share a configuration can be
+// gathered from a single program. Returns the indices of the specs in
+// each group.
+export function groupSpecs(specs: readonly GatherSpec[], virtual = false): number[][] {
+  let groups: {[key: string]: number[]} = Object.create(null)
+  specs.forEach((spec, i) => {
+    let key = JSON.stringify([virtual ? null : findConfig(spec) || null, spec.compilerOptions || null])
+    if (!groups[key]) groups[key] = []
+    groups[key].push(i)
+  })
+  return Object.keys(groups).map(key => groups[key])
+}
+
+// Create a compiler host that reads the given (absolute) paths from
+// `files`, falling back to the file system for other files.
+export function virtualHost(options: CompilerOptions, files: {[path: string]: string}): CompilerHost {
+  let host = createCompilerHost(options)
+  let {getSourceFile, fileExists, readFile} = host
+  return Object.assign(host, {
+    getSourceFile(fileName: string, target: ScriptTarget, ...rest: any[]) {
+      let text = files[resolve(fileName)]
+      return text != null ? createSourceFile(fileName, text, target) : getSourceFile.call(host, fileName, target, ...rest)
+    },
+    fileExists(fileName: string) {
+      return files[resolve(fileName)] != null || fileExists.call(host, fileName)
+    },
+    // Module resolution skips directories that don't exist
+    directoryExists(dirName: string) {
+      let dir = resolve(dirName) + sep
+      return Object.keys(files).some(file => file.startsWith(dir)) || sys.directoryExists(dirName)
+    },
+    readFile(fileName: string) {
+      let text = files[resolve(fileName)]
+      return text != null ? text : readFile.call(host, fileName)
+    }
+  })
+}
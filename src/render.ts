@@ -0,0 +1,248 @@
+import {Item, BindingType, CallSignature, Param, Loc} from "./index"
+import {TypePrinter, paramName} from "./print"
+import {Usage} from "./usage"
+
+export interface RenderOptions {
+  // The output format. Defaults to "markdown".
+  format?: "markdown" | "html"
+  // A title to put at the top of the page.
+  title?: string
+  // A URL template used to link to the source of items. `{file}`,
+  // `{line}`, and `{column}` are replaced with the item's location.
+  sourceURL?: string
+  // An index, as returned by `usageIndex`, used to add lists of the
+  // items that use and return each type.
+  usage?: {[id: string]: Usage}
+}
+
+// Render a set of items, as returned by `gather`, to a Markdown
+// document or standalone HTML page.
+export function render(items: {[name: string]: Item}, options: RenderOptions = {}) {
+  return new Renderer(items, options).render()
+}
+
+class Renderer {
+  // The ids that get an anchor in the output
+  ids = new Set<string>()
+  printer: TypePrinter
+  html: boolean
+  blocks: string[] = []
+
+  constructor(readonly items: {[name: string]: Item}, readonly options: RenderOptions) {
+    this.html = options.format == "html"
+    this.printer = new TypePrinter(escapeHTML, type => this.ref(type))
+    for (let name in items) this.collectIds(items[name])
+  }
+
+  collectIds(item: Item) {
+    this.ids.add(item.id)
+    for (let param of documentedParams(item)) this.ids.add(param.id)
+    if (item.construct) this.collectIds(item.construct)
+    for (let props of [item.properties, item.instanceProperties, item.namespaceMembers]) if (props)
+      for (let name in props) this.collectIds(props[name])
+  }
+
+  render() {
+    if (this.options.title) this.heading(1, null, escapeHTML(this.options.title))
+    for (let name in this.items) this.item(name, this.items[name], 2, false)
+    let body = this.blocks.join("\n\n") + "\n"
+    if (!this.html) return body
+    let title = escapeHTML(this.options.title || "API Reference")
+    return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { max-width: 50em; margin: 0 auto; padding: 1em; font-family: sans-serif; line-height: 1.4 }
+  pre { background: #f4f4f4; padding: .5em; overflow-x: auto }
+  .source { font-size: 80%; color: #666 }
+</style>
+</head>
+<body>
+${body}</body>
+</html>
+`
+  }
+
+  item(name: string, item: Item, level: number, isStatic: boolean) {
+    this.heading(level, item.id, `<code>${escapeHTML(name)}</code>`)
+    this.blocks.push(`<pre><code>${this.declaration(name, item, isStatic)}</code></pre>`)
+    if (item.internal) this.markdown("**Internal**")
+    if (item.inheritedFrom) this.markdown(`Inherited from <code>${this.printer.type(item.inheritedFrom)}</code>`)
+    if (item.deprecated != null)
+      this.markdown("**Deprecated**" + (item.deprecated ? ": " + item.deprecated : ""))
+    if (item.description) this.markdown(item.description)
+
+    let params = documentedParams(item).map(p => `<code>${escapeHTML(paramName(p))}</code> — ${this.inline(p.description!)}`)
+    if (params.length) this.list("Parameters", params, documentedParams(item).map(p => p.id))
+    let returns = item.signatures && item.signatures.find(s => s.returns && s.returns.description)
+    if (returns) this.markdown("Returns: " + returns.returns!.description)
+    let usage = this.options.usage && this.options.usage[item.id]
+    if (usage) {
+      let ref = (id: string) => this.inline(this.ids.has(id) ? `[\`${id}\`]` : `\`${id}\``)
+      if (usage.returnedBy.length) this.list("Returned by", usage.returnedBy.map(ref))
+      if (usage.usedBy.length) this.list("Used by", usage.usedBy.map(ref))
+    }
+    if (item.since) this.markdown("Since: " + item.since)
+    if (item.see) this.list("See also", item.see.map(s => this.inline(s)))
+    if (item.examples) for (let example of item.examples) this.code(example)
+    if (item.loc) this.source(item.loc)
+
+    if (item.construct) this.item("constructor", item.construct, level + 1, false)
+    if (item.properties) for (let prop in item.properties)
+      this.item(prop, item.properties[prop], level + 1, item.type == "class")
+    if (item.instanceProperties) for (let prop in item.instanceProperties)
+      this.item(prop, item.instanceProperties[prop], level + 1, false)
+    if (item.namespaceMembers) for (let prop in item.namespaceMembers)
+      this.item(prop, item.namespaceMembers[prop], level + 1, false)
+  }
+
+  // The TypeScript-style declaration for an item, as HTML.
+  declaration(name: string, item: Item, isStatic: boolean): string {
+    let p = this.printer, strong = `<strong>${escapeHTML(name)}</strong>`
+    let prefix = (item.access ? item.access + " " : "") + (isStatic ? "static " : "") + (item.abstract ? "abstract " : "")
+    let typeParams = item.typeParams ? p.typeParams(item.typeParams) : ""
+    switch (item.kind) {
+      case "class": {
+        let out = prefix + "class " + strong + typeParams
+        if (item.extends) out += " extends " + p.type(item.extends)
+        if (item.implements) out += " implements " + item.implements.map(t => p.type(t)).join(", ")
+        return out
+      }
+      case "interface":
+        return "interface " + strong + typeParams +
+          (item.implements ? " extends " + item.implements.map(t => p.type(t)).join(", ") : "")
+      case "enum": case "namespace":
+        return (item.const ? "const " : "") + item.kind + " " + strong
+      case "typealias":
+        return "type " + strong + typeParams + " = " + p.type(item)
+      case "variable":
+        return (item.const ? "const " : "let ") + p.member(name, item, key => `<strong>${escapeHTML(key)}</strong>`)[0] +
+          (item.initializer ? " = " + escapeHTML(item.initializer) : "")
+      case "enummember":
+        return strong + (item.value != null ? " = " + escapeHTML(JSON.stringify(item.value)) : "")
+      case "reexport":
+        return `export {${escapeHTML(item.type)}${item.type == name ? "" : " as " + strong}}` +
+          (item.typeSource ? ` from ${escapeHTML(JSON.stringify(item.typeSource))}` : "")
+      case "function": case "method": case "constructor":
+        if (item.signatures) return item.signatures.map(sig => {
+          let before = prefix + (item.kind == "function" ? "function " : "")
+          let sigName = item.kind == "constructor" ? escapeHTML(/([^.^]*)\.constructor$/.exec(item.id)![1]) : strong
+          return before + p.signature(sig, sigName)
+        }).join("\n")
+    }
+    return p.member(name, item, key => `<strong>${escapeHTML(key)}</strong>`).map(m => prefix + m).join("\n")
+  }
+
+  ref(type: BindingType) {
+    let name = escapeHTML(type.type)
+    let target = type.typeParamSource || (type.typeSource ? type.type : null)
+    return target && this.ids.has(target) ? `<a href="#${anchor(target)}">${name}</a>` : name
+  }
+
+  heading(level: number, id: string | null, content: string) {
+    level = Math.min(level, 6)
+    if (this.html) this.blocks.push(`<h${level}${id ? ` id="${anchor(id)}"` : ""}>${content}</h${level}>`)
+    else this.blocks.push((id ? `<a id="${anchor(id)}"></a>\n` : "") + "#".repeat(level) + " " + content)
+  }
+
+  markdown(text: string) {
+    text = this.resolveRefs(text)
+    this.blocks.push(this.html ? markdownToHTML(text) : text)
+  }
+
+  inline(text: string) {
+    text = this.resolveRefs(text)
+    return this.html ? inlineToHTML(text) : text.replace(/\n\s*/g, " ")
+  }
+
+  list(label: string, entries: string[], ids?: string[]) {
+    let anchors = entries.map((_, i) => ids ? ` id="${anchor(ids[i])}"` : "")
+    if (this.html)
+      this.blocks.push(`<p>${label}:</p>\n<ul>\n` + entries.map((e, i) => `<li${anchors[i]}>${e}</li>`).join("\n") + "\n</ul>")
+    else
+      this.blocks.push(`${label}:\n\n` + entries.map((e, i) => ` - ${ids ? `<a${anchors[i]}></a>` : ""}${e}`).join("\n"))
+  }
+
+  code(text: string) {
+    this.blocks.push(this.html ? `<pre><code class="language-typescript">${escapeHTML(text)}</code></pre>`
+                     : "```typescript\n" + text + "\n```")
+  }
+
+  source(loc: Loc) {
+    let text = `${loc.file}:${loc.line}`, url = this.options.sourceURL && this.options.sourceURL
+      .replace(/\{file\}/g, loc.file).replace(/\{line\}/g, String(loc.line)).replace(/\{column\}/g, String(loc.column))
+    if (this.html)
+      this.blocks.push(`<p class="source">Defined in ${url ? `<a href="${escapeHTML(url)}">${escapeHTML(text)}</a>` : escapeHTML(text)}</p>`)
+    else
+      this.blocks.push(`Defined in ${url ? `[${text}](${url})` : "`" + text + "`"}`)
+  }
+
+  // Turn [`name`] references to known items into links.
+  resolveRefs(text: string) {
+    return text.replace(/\[`([^`\]]+)`\](?![\(\[])/g, (m, name) => this.ids.has(name) ? `[\`${name}\`](#${anchor(name)})` : m)
+  }
+}
+
+function documentedParams(item: Item): Param[] {
+  let params: Param[] = []
+  if (item.typeParams) params.push(...item.typeParams.filter(p => p.description))
+  if (item.signatures) for (let sig of item.signatures as CallSignature[]) {
+    if (sig.typeParams) params.push(...sig.typeParams.filter(p => p.description))
+    for (let param of sig.params)
+      if (param.description && !params.some(p => p.id == param.id)) params.push(param)
+  }
+  return params
+}
+
+function anchor(id: string) {
+  return id.replace(/[^\w.$-]/g, "-")
+}
+
+function escapeHTML(text: string) {
+  return text.replace(/[<>&"]/g, ch => ch == "<" ? "&lt;" : ch == ">" ? "&gt;" : ch == "&" ? "&amp;" : "&quot;")
+}
+
+// A minimal Markdown converter, which handles the subset (paragraphs,
+// lists, code blocks, code spans, links, and emphasis) commonly used
+// in doc comments.
+function markdownToHTML(text: string) {
+  let lines = text.split("\n"), out: string[] = [], listItem = /^\s*([-*+]|\d+\.)\s+/
+  for (let i = 0; i < lines.length;) {
+    let line = lines[i], fence = /^\s*```(\w*)/.exec(line)
+    if (fence) {
+      let code: string[] = []
+      for (i++; i < lines.length && !/^\s*```/.test(lines[i]); i++) code.push(lines[i])
+      i++
+      out.push(`<pre><code${fence[1] ? ` class="language-${fence[1]}"` : ""}>${escapeHTML(code.join("\n"))}</code></pre>`)
+    } else if (!/\S/.test(line)) {
+      i++
+    } else if (listItem.test(line)) {
+      let tag = /^\s*\d/.test(line) ? "ol" : "ul", items: string[] = []
+      for (; i < lines.length && /\S/.test(lines[i]) && !/^\s*```/.test(lines[i]); i++) {
+        if (listItem.test(lines[i])) items.push(lines[i].replace(listItem, ""))
+        else items[items.length - 1] += "\n" + lines[i].trim()
+      }
+      out.push(`<${tag}>\n` + items.map(item => `<li>${inlineToHTML(item)}</li>`).join("\n") + `\n</${tag}>`)
+    } else {
+      let para: string[] = []
+      while (i < lines.length && /\S/.test(lines[i]) && !/^\s*```/.test(lines[i])) para.push(lines[i++])
+      out.push(`<p>${inlineToHTML(para.join("\n"))}</p>`)
+    }
+  }
+  return out.join("\n")
+}
+
+function inlineToHTML(text: string): string {
+  let out = "", pos = 0, re = /`([^`]*)`|\[((?:`[^`]*`|[^\]`])*)\]\(([^)\s]*)\)/g, m
+  let plain = (s: string) => escapeHTML(s)
+    .replace(/\*\*([^*]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^\w*])[*_]([^*_\s][^*_]*)[*_](?![\w*])/g, "$1<em>$2</em>")
+  while (m = re.exec(text)) {
+    out += plain(text.slice(pos, m.index))
+    out += m[1] != null ? `<code>${escapeHTML(m[1])}</code>` : `<a href="${escapeHTML(m[3])}">${inlineToHTML(m[2])}</a>`
+    pos = m.index + m[0].length
+  }
+  return out + plain(text.slice(pos))
+}
@@ -0,0 +1,187 @@
+import {createProgram, getPreEmitDiagnostics, flattenDiagnosticMessageText, getLineAndCharacterOfPosition} from "typescript"
+
+import {resolve, join, relative} from "path"
+
+import {Item, BindingType, Param, GatherSpec, gather} from "./index"
+import {TypePrinter, propertyName} from "./print"
+import {loadConfig, virtualHost, specBasedir} from "./program"
+
+// Prints types the way they appear in declaration files, where
+// parameters can't have default values.
+class DeclarationPrinter extends TypePrinter {
+  type(type: BindingType, prec = 0): string {
+    // Produced for instantiated mapped types that can't be traced back
+    // to their definition, and for types that couldn't be gathered
+    if ((type.type == "instantiated" || type.type == "unsupported") && !type.typeSource) return "any"
+    return super.type(type, prec)
+  }
+
+  param(param: Param) {
+    return super.param(param.default ? {...param, default: undefined, optional: true} : param)
+  }
+
+  member(name: string, item: Item) {
+    // Unique symbols can't be referred to by name, and are left out
+    if (name == "[unique symbol]") return []
+    let symbol = /^\[symbol (\w+)\]$/.exec(name)
+    return super.member(symbol ? `[Symbol.${symbol[1]}]` : name, item)
+  }
+}
+
+const printer = new DeclarationPrinter()
+
+// Print an item as TypeScript declaration source. Top-level items
+// (the default when `name` is not given) are printed as exported
+// declarations.
+export function toDeclarationString(item: Item, name = item.id) {
+  return declaration(name, item, "export declare ", "").join("\n")
+}
+
+// Print a set of items, as returned by `gather`, as a declaration
+// file. The result is stable, and thus suitable for checking in as a
+// snapshot of a package's interface.
+export function apiReport(items: {[name: string]: Item}) {
+  let out = []
+  for (let name in items) out.push(toDeclarationString(items[name], name))
+  return out.join("\n\n") + "\n"
+}
+
+// Members of a class, interface, or enum that are part of a
+// namespace merged with that declaration.
+function isNamespaceMember(item: Item) {
+  return !["property", "method", "enummember"].includes(item.kind)
+}
+
+// Members that are declared in the class or interface body itself.
+// Inherited members are left to the base type's declaration.
+function isOwnMember(item: Item) {
+  return !isNamespaceMember(item) && !item.inheritedFrom
+}
+
+function declaration(name: string, item: Item, prefix: string, indent: string): string[] {
+  let typeParams = item.typeParams ? printer.typeParams(item.typeParams) : ""
+  let lines: string[] = [], head = indent + prefix
+  let body = (members: string[]) => members.map(m => indent + "  " + m)
+  switch (item.kind) {
+    case "class": {
+      let decl = head + (item.abstract ? "abstract " : "") + "class " + name + typeParams
+      if (item.extends) decl += " extends " + printer.type(item.extends)
+      if (item.implements) decl += " implements " + item.implements.map(t => printer.type(t)).join(", ")
+      let members: string[] = []
+      if (item.construct) for (let sig of item.construct.signatures || [])
+        members.push(accessPrefix(item.construct) + "constructor(" + sig.params.map(p => printer.param(p)).join(", ") + ");")
+      for (let [props, isStatic] of [[item.properties, true], [item.instanceProperties, false]] as const) if (props)
+        for (let prop in props) if (isOwnMember(props[prop]))
+          members.push(...printer.member(prop, props[prop]).map(m => accessPrefix(props[prop]) + (isStatic ? "static " : "") +
+                                                               (props[prop].abstract ? "abstract " : "") + m + ";"))
+      lines.push(decl + " {", ...body(members), indent + "}")
+      break
+    }
+    case "interface": {
+      let decl = head.replace("declare ", "") + "interface " + name + typeParams
+      if (item.implements) decl += " extends " + item.implements.map(t => printer.type(t)).join(", ")
+      let members = (item.signatures || []).map(sig => printer.signature(sig, null) + ";")
+      if (item.properties) for (let prop in item.properties) if (isOwnMember(item.properties[prop]))
+        members.push(...printer.member(prop, item.properties[prop]).map(m => m + ";"))
+      lines.push(decl + " {", ...body(members), indent + "}")
+      break
+    }
+    case "enum": {
+      let members: string[] = []
+      for (let prop in item.properties!) {
+        let member = item.properties![prop]
+        if (!isNamespaceMember(member))
+          members.push(propertyName(prop) + (member.value != null ? " = " + JSON.stringify(member.value) : "") + ",")
+      }
+      lines.push(head + (item.const ? "const " : "") + "enum " + name + " {", ...body(members), indent + "}")
+      break
+    }
+    case "namespace":
+      break
+    case "typealias":
+      lines.push(head.replace("declare ", "") + "type " + name + typeParams + " = " + printer.type(item) + ";")
+      break
+    case "function":
+      for (let sig of item.signatures || []) lines.push(head + "function " + printer.signature(sig, name) + ";")
+      break
+    case "reexport":
+      lines.push(indent + `export {${item.type == name ? name : item.type + " as " + name}}` +
+                 (item.typeSource ? ` from ${JSON.stringify(moduleSpecifier(item.typeSource))}` : "") + ";")
+      break
+    case "variable":
+      lines.push(head + (item.const ? "const " : "let ") + name + ": " + printer.type(item) + ";")
+      break
+    default:
+      lines.push(...printer.member(name, item).map(m => indent + m + ";"))
+  }
+
+  // Namespaces, and the namespace part of merged declarations
+  let nsMembers: string[] = [], merged = ["class", "interface", "enum"].includes(item.kind)
+  if (item.properties && (item.kind == "namespace" || item.kind == "function" || merged))
+    for (let prop in item.properties) if (!merged || isNamespaceMember(item.properties[prop]))
+      nsMembers.push(...declaration(prop, item.properties[prop], "export ", indent + "  "))
+  if (item.namespaceMembers) for (let prop in item.namespaceMembers)
+    nsMembers.push(...declaration(prop, item.namespaceMembers[prop], "export ", indent + "  "))
+  if (item.kind == "namespace" || nsMembers.length)
+    lines.push(head + "namespace " + name + " {", ...nsMembers, indent + "}")
+  return lines
+}
+
+function accessPrefix(item: Item) {
+  return item.access ? item.access + " " : ""
+}
+
+// Convert a path relative to the base directory to a module
+// specifier, using the package name for files in node_modules.
+export function moduleSpecifier(path: string) {
+  let pkg = /(?:^|\/)node_modules\/((?:@[^\/]+\/)?[^\/]+)/.exec(path)
+  if (pkg) return pkg[1]
+  let spec = path.replace(/(\.d)?\.[cm]?tsx?$/, "")
+  return /^\.\.?\//.test(spec) ? spec : "./" + spec
+}
+
+// Errors about classes not implementing members of their parents.
+// Those are expected, because members that are inherited without
+// being documented again are left out of the output.
+const inheritedMemberErrors = [2420, 2515, 2654]
+
+// Gather the items for a spec, print them as an API report, and
+// typecheck that report in the context of the original program, with
+// imports added for the types it references. Returns the report and
+// any errors found in it. Errors in the report are prefixed with
+// their line and column, errors in the added imports with
+// `imports:` and their position in those.
+export function checkAPIReport(spec: GatherSpec): {report: string, errors: readonly string[]} {
+  let items = gather(spec), report = apiReport(items)
+  let {options, configPath} = loadConfig(spec)
+  let basedir = specBasedir(spec, configPath)
+  let reportFile = join(basedir, "__api_report__.ts")
+
+  let imports: {[source: string]: Set<string>} = Object.create(null)
+  let addImports = (value: any) => {
+    if (!value || typeof value != "object") return
+    if (Array.isArray(value)) return value.forEach(addImports)
+    // Types declared in namespaces are imported through the outer one
+    let name = /^[\w$]+(?=(\.[\w$]+)*$)/.exec(value.type || "")
+    if (value.typeSource && !value.typeParamSource && name && !(name[0] in items))
+      (imports[value.typeSource] || (imports[value.typeSource] = new Set)).add(name[0])
+    for (let prop in value) if (prop != "loc") addImports(value[prop])
+  }
+  for (let name in items) if (items[name].kind != "reexport") addImports(items[name])
+  let header = Object.keys(imports).map(source => {
+    let spec = moduleSpecifier(relative(basedir, resolve(basedir, source)))
+    return `import {${Array.from(imports[source]).join(", ")}} from ${JSON.stringify(spec)};\n`
+  }).join("")
+
+  let host = virtualHost(options, {[reportFile]: header + report})
+  let program = createProgram({rootNames: [spec.filename, reportFile], options, host})
+  let file = program.getSourceFile(reportFile)!, headerLines = header.split("\n").length - 1
+  let errors = getPreEmitDiagnostics(program, file).filter(d => !inheritedMemberErrors.includes(d.code)).map(diag => {
+    let message = flattenDiagnosticMessageText(diag.messageText, "\n")
+    if (diag.file != file || diag.start == null) return message
+    let {line, character} = getLineAndCharacterOfPosition(file, diag.start)
+    return line < headerLines ? `imports:${line + 1}:${character + 1}: ${message}`
+      : `${line + 1 - headerLines}:${character + 1}: ${message}`
+  })
+  return {report, errors}
+}
@@ -0,0 +1,77 @@
+import {Item} from "./index"
+import {walkItems} from "./walk"
+import {TypePrinter} from "./print"
+
+export type SearchIndex = {
+  // One entry per item, in document order
+  items: SearchEntry[],
+  // Maps each word to the (ascending) indices of the entries in
+  // `items` that contain it
+  words: {[word: string]: number[]}
+}
+
+export type SearchEntry = {
+  id: string,
+  kind: string,
+  // The item's own name, without the names of its parents
+  name: string,
+  // A one-line TypeScript summary, for functions, methods,
+  // constructors, properties, variables, and type aliases
+  signature?: string,
+  // The first sentence of the item's description
+  summary?: string
+}
+
+const printer = new TypePrinter()
+
+// Build a search index for a set of items, as returned by `gather`.
+// Words are taken from item names (split at camelCase boundaries)
+// and descriptions.
+export function searchIndex(items: {[name: string]: Item}): SearchIndex {
+  let entries: SearchEntry[] = [], words: {[word: string]: number[]} = Object.create(null)
+  walkItems(items, target => {
+    let item = target as Item
+    if (item.kind == "reexport") return
+    let name = item.id.slice(Math.max(item.id.lastIndexOf("."), item.id.lastIndexOf("^")) + 1)
+    let entry: SearchEntry = {id: item.id, kind: item.kind, name}
+    let signature = summarizeSignature(name, item)
+    if (signature) entry.signature = signature
+    if (item.description) entry.summary = firstSentence(item.description)
+    let index = entries.push(entry) - 1
+    let text = name.replace(/([a-z\d])([A-Z])/g, "$1 $2") + " " + name + " " + (item.description || "")
+    for (let word of tokenize(text)) {
+      let list = words[word] || (words[word] = [])
+      if (list[list.length - 1] != index) list.push(index)
+    }
+  })
+  let sorted: {[word: string]: number[]} = {}
+  for (let word of Object.keys(words).sort()) sorted[word] = words[word]
+  return {items: entries, words: sorted}
+}
+
+// Split text into lowercase words of at least two characters. Search
+// queries should be split the same way.
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(/[a-z\d_$]+/g) || []).filter(w => w.length > 1)
+}
+
+function summarizeSignature(name: string, item: Item) {
+  switch (item.kind) {
+    case "function": case "method": case "constructor": {
+      // Constructors are summarized as `new Class(...)`
+      let sigName = item.kind == "constructor" ? /([^.^]*)\.constructor$/.exec(item.id)![1] : name
+      return item.signatures && item.signatures.length ? printer.signature(item.signatures[0], sigName) : undefined
+    }
+    case "property": case "variable":
+      return printer.member(name, item)[0]
+    case "typealias":
+      return "type " + name + (item.typeParams ? printer.typeParams(item.typeParams) : "") + " = " + printer.type(item)
+  }
+  return undefined
+}
+
+function firstSentence(text: string) {
+  let flat = text.replace(/\s+/g, " ").trim()
+  let end = /[.!?](?=\s|$)/.exec(flat)
+  return end ? flat.slice(0, end.index + 1) : flat
+}
@@ -0,0 +1,69 @@
+import {Item, BindingType} from "./index"
+import {walkItems} from "./walk"
+
+export type Usage = {
+  // The ids of items that refer to the type in a parameter or
+  // property type, an `extends` or `implements` clause, or a type
+  // argument
+  usedBy: string[],
+  // The ids of items whose return type refers to the type
+  returnedBy: string[]
+}
+
+// Kinds of items that can be referred to as types.
+const typeKinds = ["class", "interface", "enum", "typealias"]
+
+// Build an index of the places where the types declared in a set of
+// `gather` results are referred to. The result maps the ids of those
+// types to the items that use them. References are matched by
+// (namespace-qualified) name and source file, so results gathered
+// with different `basedir`s don't see each other's references.
+export function usageIndex(results: readonly {[name: string]: Item}[]): {[id: string]: Usage} {
+  let targets: {[key: string]: string} = Object.create(null)
+  for (let items of results) walkItems(items, item => {
+    if (typeKinds.includes(item.kind) && item.loc)
+      targets[item.loc.file + "#" + item.id.replace(/\^/g, ".")] = item.id
+  })
+
+  let index: {[id: string]: Usage} = Object.create(null)
+  let add = (target: string, user: string, returned: boolean) => {
+    if (target == user) return
+    let usage = index[target] || (index[target] = {usedBy: [], returnedBy: []})
+    let list = returned ? usage.returnedBy : usage.usedBy
+    if (!list.includes(user)) list.push(user)
+  }
+  for (let items of results) walkItems(items, item => {
+    if (item.kind != "reexport") scanType(item as Item, true, false, (type, returned) => {
+      let target = type.typeSource && targets[type.typeSource + "#" + type.type]
+      if (target) add(target, item.id, returned)
+    })
+  })
+  return index
+}
+
+// Call `f` for every type referenced by a type. At the top level of
+// an item, members are skipped, since `walkItems` visits those
+// separately.
+function scanType(type: BindingType, top: boolean, returned: boolean, f: (type: BindingType, returned: boolean) => void) {
+  let scan = (t: BindingType | undefined, ret = returned) => { if (t) scanType(t, false, ret, f) }
+  if (type.typeSource) f(type, returned)
+  if (type.typeArgs) type.typeArgs.forEach(t => scan(t))
+  scan(type.extends)
+  if (type.implements) type.implements.forEach(t => scan(t))
+  if (type.key) scan(type.key)
+  scan(type.nameType)
+  if (type.typeParams) type.typeParams.forEach(t => scan(t))
+  if (type.signatures) for (let sig of type.signatures) {
+    if (sig.typeParams) sig.typeParams.forEach(t => scan(t))
+    sig.params.forEach(p => scan(p, false))
+    scan(sig.returns, true)
+    if (sig.predicate) scan(sig.predicate.type, false)
+  }
+  if (top) {
+    scan((type as Item).writeType)
+  } else {
+    scan(type.construct)
+    for (let props of [type.properties, type.instanceProperties]) if (props)
+      for (let name in props) scan(props[name])
+  }
+}
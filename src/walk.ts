@@ -0,0 +1,25 @@
+import {Item, Param, BindingType} from "./index"
+
+// Call `f` for every item in a set of items, including nested
+// properties, instance properties, namespace members, and
+// constructors. When `params` is true, it is also called for the
+// parameters and type parameters of those items.
+export function walkItems(items: {[name: string]: Item}, f: (item: Item | Param) => void, params = false) {
+  let visitType = (type: BindingType) => {
+    if (params) {
+      if (type.typeParams) type.typeParams.forEach(f)
+      if (type.signatures) for (let sig of type.signatures) {
+        if (sig.typeParams) sig.typeParams.forEach(f)
+        sig.params.forEach(f)
+      }
+    }
+    if (type.construct) visit(type.construct)
+    for (let props of [type.properties, type.instanceProperties, type.namespaceMembers]) if (props)
+      for (let name in props) visit(props[name])
+  }
+  let visit = (item: Item) => {
+    f(item)
+    visitType(item)
+  }
+  for (let name in items) visit(items[name])
+}
@@ -0,0 +1,84 @@
+import {createWatchCompilerHost, createWatchProgram, createSemanticDiagnosticsBuilderProgram, sys, Program} from "typescript"
+
+import {Item, GatherSpec, gatherFromProgram} from "./index"
+import {loadConfig, groupSpecs, specBasedir} from "./program"
+import {resolveLinks, ignoreWarning, LinkSpec} from "./links"
+
+export interface Watcher {
+  // Stop watching.
+  close(): void
+}
+
+// Gather a set of specs, and keep watching their files (and the files
+// they depend on) for changes. `onUpdate` is called with the items
+// for all specs after the initial gather, and again whenever a file
+// changes, with the indices of the specs that were re-gathered in
+// `changed`. Errors thrown while gathering are passed to `onError`.
+// While some spec fails to gather, `onUpdate` isn't called. Its next
+// call includes the specs that changed in the meantime (or all
+// specs, if there was no successful update yet).
+export function watch(specs: readonly GatherSpec[],
+                      onUpdate: (results: readonly {[name: string]: Item}[], changed: readonly number[]) => void,
+                      onError: (error: Error) => void = e => console.error(e.message)): Watcher {
+  let results: ({[name: string]: Item} | null)[] = specs.map(() => null)
+  let linkSpecs: LinkSpec[] = []
+  let started = false, updated = false
+  // Specs that changed since the last call to `onUpdate`
+  let pending: number[] = []
+
+  let update = (changed: readonly number[]) => {
+    for (let index of changed) if (!pending.includes(index)) pending.push(index)
+    if (!started || results.some(r => !r)) return
+    let reported = updated ? pending.sort((a, b) => a - b) : specs.map((_, i) => i)
+    pending = []
+    updated = true
+    if (specs.some(s => s.resolveLinks)) {
+      // Warnings for unchanged specs were already reported
+      resolveLinks(linkSpecs.map((spec, i) => reported.includes(i) ? spec : {...spec, warn: () => {}}))
+    }
+    onUpdate(results as {[name: string]: Item}[], reported)
+  }
+
+  let programs = groupSpecs(specs).map(group => {
+    let members = group.map(i => ({...specs[i], resolveLinks: false}))
+    let {options, configPath} = loadConfig(members[0])
+    let dependencies: (readonly string[])[] = members.map(s => [s.filename])
+    let prev: Program | null = null
+
+    let host = createWatchCompilerHost(members.map(s => s.filename), options, sys, createSemanticDiagnosticsBuilderProgram,
+                                       () => {}, () => {})
+    // Replaces the default hook, which would emit output files
+    host.afterProgramCreate = builder => {
+      let program = builder.getProgram(), old = prev
+      prev = program
+      let changed = group.filter((index, i) => {
+        return !results[index] || dependencies[i].some(file => !old || old.getSourceFile(file) != program.getSourceFile(file))
+      })
+      if (!changed.length) return
+      try {
+        let updated = gatherFromProgram(program, members, configPath,
+                                        group.map(index => changed.includes(index) ? null : results[index]))
+        group.forEach((index, i) => {
+          results[index] = updated[i]
+          linkSpecs[index] = {items: updated[i], basedir: specBasedir(specs[index], configPath), program,
+                              resolve: !!specs[index].resolveLinks, warn: specs[index].onWarning || ignoreWarning}
+          if (changed.includes(index)) {
+            let file = program.getSourceFile(members[i].filename)!
+            dependencies[i] = [file.fileName, ...builder.getAllDependencies(file)]
+          }
+        })
+      } catch (e) {
+        // Make sure these are gathered again on the next change
+        for (let index of changed) results[index] = null
+        onError(e as Error)
+        return
+      }
+      update(changed)
+    }
+    return createWatchProgram(host)
+  })
+
+  started = true
+  update([])
+  return {close() { for (let program of programs) program.close() }}
+}
@@ -0,0 +1,27 @@
+let value = ""
+export class Box {
+  /// Read as a string.
+  get content(): string { return value }
+  /// Accepts numbers too.
+  set content(v: string | number) { value = String(v) }
+
+  /// Write only.
+  set sink(v: boolean) {}
+
+  /// Same type, spelled twice.
+  get point(): {x: number} { return {x: 0} }
+  set point(p: {x: number}) {}
+
+  /// Accepts anything.
+  get loose(): string { return value }
+  set loose(v: any) {}
+
+  /// Accepts an extra field.
+  get shape(): {x: number} { return {x: 0} }
+  set shape(s: {x: number, y?: string}) {}
+}
+
+export interface Settings {
+  get size(): number
+  set size(value: number | "auto")
+}
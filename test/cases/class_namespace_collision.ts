@@ -0,0 +1,8 @@
+export class P {
+  /// The instance value.
+  x = 1
+}
+export namespace P {
+  /// The namespace value.
+  export const x = 2
+}
@@ -0,0 +1,6 @@
+/// The version.
+export const version = "1.2.0"
+export const timeout = 5000, offset = -1
+export const point = {x: 1, y: [2, 3]} as const
+export const computed = Math.max(1, 2)
+export let mutable = true
@@ -0,0 +1,16 @@
+/// Text styles.
+export const enum Flags {
+  Bold = 1 << 2,
+  Italic = 8,
+  Both = Bold | Italic
+}
+
+export declare enum Mode {
+  Text = "text",
+  Binary = "binary"
+}
+
+export enum Computed {
+  Fixed = 1,
+  Length = "abc".length
+}
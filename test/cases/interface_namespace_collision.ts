@@ -0,0 +1,14 @@
+export interface Foo {
+  /// The interface member.
+  a: number
+}
+export namespace Foo {
+  /// The namespace member.
+  export const a = 1
+}
+
+export type Pair = {first: string}
+export namespace Pair {
+  /// Create a pair.
+  export function first(value: string): Pair { return {first: value} }
+}
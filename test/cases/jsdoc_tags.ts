@@ -0,0 +1,37 @@
+/// Add two numbers.
+///
+/// @param a The first number.
+/// @param {number} [b=1] - The second
+///   number, spanning lines.
+/// @returns The sum.
+/// @since 1.2.0
+/// @see subtract
+/// @see https://example.com/math
+/// @example
+///   add(1, 2) // 3
+/// @deprecated Use `sum` instead.
+export function add(a: number, b = 1) { return a + b }
+
+export class Counter {
+  /// Create a counter.
+  /// @param start The initial count.
+  constructor(start: number) { this.count = start }
+
+  count: number
+
+  /// @deprecated
+  reset(/** Explicit comment wins. */ to: number) { this.count = to }
+}
+
+/**
+ * Check whether a value is a counter.
+ *
+ * @param value The value to check.
+ * @returns Whether it is one.
+ */
+export function isCounter(value: unknown): value is Counter { return value instanceof Counter }
+
+/// Configure the counters.
+/// @param options The options.
+/// @param verbose Whether to log changes.
+export function configure({start}: {start: number}, verbose = false) {}
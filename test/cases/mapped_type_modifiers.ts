@@ -0,0 +1,3 @@
+export type Mutable<T> = {-readonly [K in keyof T]: T[K]}
+export type Frozen<T> = {readonly [K in keyof T]+?: T[K]}
+export type Getters<T> = {[K in keyof T as `get${Capitalize<K & string>}`]: () => T[K]}
@@ -0,0 +1,26 @@
+/// A namespace.
+export namespace Util {
+  /// Add two numbers.
+  export function add(a: number, b: number) { return a + b }
+  export const zero = 0
+  /// An interface inside a namespace.
+  export interface Options { verbose: boolean }
+}
+
+/// A function with properties.
+export function create(): number { return create.defaultValue }
+export namespace create {
+  export let defaultValue = 10
+}
+
+export class Point {
+  constructor(readonly x: number) {}
+  static origin = new Point(0)
+}
+export namespace Point {
+  /// Compare points.
+  export function equal(a: Point, b: Point) { return a.x == b.x }
+}
+
+/// Re-exported module.
+export * as voidCase from "./void"
@@ -0,0 +1,7 @@
+export namespace NS {
+  /// Options.
+  export interface O { a: number }
+}
+
+/// Take namespaced options.
+export function f(o: NS.O): void {}
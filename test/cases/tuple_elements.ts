@@ -0,0 +1,5 @@
+/// A range with an optional end.
+export type Range = [start: number, end?: number]
+export type Event = readonly [name: string, ...args: unknown[]]
+export type Unlabeled = [number, (string | boolean)?, ...Date[]]
+export type Prepend<T extends unknown[]> = [first: string, ...T]
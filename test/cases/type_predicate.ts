@@ -0,0 +1,16 @@
+export interface Node { type: string }
+
+/// Check whether a value is a node.
+export function isNode(x: unknown): x is Node { return typeof x == "object" && x != null }
+
+export function assert(cond: unknown): asserts cond { if (!cond) throw new Error("Assertion failed") }
+
+export function assertString(x: unknown): asserts x is string { if (typeof x != "string") throw new Error("Not a string") }
+
+export class Tree {
+  isLeaf(): this is Leaf { return false }
+}
+
+export class Leaf extends Tree {
+  value = 0
+}
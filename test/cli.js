@@ -0,0 +1,47 @@
+const assert = require("assert")
+const {spawnSync} = require("child_process")
+const fs = require("fs"), os = require("os"), path = require("path")
+
+const bin = path.join(__dirname, "../bin/getdocs-ts.js")
+
+function run(...args) {
+  return spawnSync(process.execPath, [bin, ...args], {cwd: path.join(__dirname, ".."), encoding: "utf8"})
+}
+
+describe("command line", () => {
+  it("outputs JSON for an entry", () => {
+    let {status, stdout} = run("test/cases/namespace.ts")
+    assert.equal(status, 0)
+    assert.deepEqual(Object.keys(JSON.parse(stdout)), ["Util", "create", "Point", "voidCase"])
+  })
+
+  it("writes one file per entry with --out-dir", () => {
+    let dir = fs.mkdtempSync(path.join(os.tmpdir(), "getdocs-"))
+    try {
+      let {status} = run("--out-dir", dir, "--format", "declarations", "test/cases/namespace.ts", "test/cases/enum.ts")
+      assert.equal(status, 0)
+      assert.deepEqual(fs.readdirSync(dir).sort(), ["enum.d.ts", "namespace.d.ts"])
+    } finally {
+      fs.rmSync(dir, {recursive: true})
+    }
+  })
+
+  it("prints warnings to stderr", () => {
+    let {status, stderr} = run("test/lint/docs.ts")
+    assert.equal(status, 0)
+    assert.equal(stderr, "test/lint/docs.ts:7: @param tag for unknown parameter color\n")
+  })
+
+  it("exits with status 2 on invalid arguments", () => {
+    let {status, stderr} = run("--format", "pdf", "test/cases/namespace.ts")
+    assert.equal(status, 2)
+    assert.ok(stderr.includes("Unknown format pdf"))
+    assert.equal(run().status, 2)
+  })
+
+  it("exits with status 1 when gathering fails", () => {
+    let {status, stderr} = run("--project", "test/nonexistent.json", "test/cases/namespace.ts")
+    assert.equal(status, 1)
+    assert.ok(stderr.includes("not found"))
+  })
+})
@@ -0,0 +1,19 @@
+const assert = require("assert")
+
+const {gatherMany} = require("../src")
+
+describe("compiler options", () => {
+  it("gathers specs with different options from separate programs", () => {
+    let [strict, loose] = gatherMany([
+      {filename: "test/config/nullable.ts", compilerOptions: {strict: true}},
+      {filename: "test/config/nullable.ts", compilerOptions: {strict: false}}
+    ])
+    assert.deepEqual(strict.value.type, "union")
+    assert.deepEqual(loose.value.type, "string")
+  })
+
+  it("reports invalid options", () => {
+    assert.throws(() => gatherMany([{filename: "test/config/nullable.ts", compilerOptions: {target: "nope"}}]),
+                  /Invalid compiler options/)
+  })
+})
@@ -0,0 +1,2 @@
+/// A nullable value.
+export declare const value: string | null
@@ -0,0 +1,29 @@
+const assert = require("assert")
+
+const {gatherSources} = require("../src")
+
+describe("diagnostics", () => {
+  let files = {
+    "index.ts": `export {helper} from "./helper"\n/// Broken.\nexport const x: number = "no"\n`,
+    "helper.ts": `/// Help.\nexport function helper(a: string) { return a.nope }\n`
+  }
+
+  it("reports diagnostics for entry files and their imports", () => {
+    let warnings = []
+    gatherSources(files, [{filename: "index.ts", diagnostics: "warn", onWarning: w => warnings.push(w)}])
+    assert.deepEqual(warnings.map(w => w.loc), [{file: "index.ts", line: 3, column: 13},
+                                                {file: "helper.ts", line: 2, column: 45}])
+    assert.match(warnings[0].message, /^error TS2322: Type 'string' is not assignable to type 'number'/)
+  })
+
+  it("can fail on errors", () => {
+    assert.throws(() => gatherSources(files, [{filename: "index.ts", diagnostics: "error"}]),
+                  /Type errors in "[^"]*index.ts":\nindex.ts:3: error TS2322/)
+  })
+
+  it("doesn't report anything by default", () => {
+    let warnings = []
+    gatherSources(files, [{filename: "index.ts", onWarning: w => warnings.push(w)}])
+    assert.deepEqual(warnings, [])
+  })
+})
@@ -0,0 +1,99 @@
+const assert = require("assert")
+
+const {diff} = require("../src")
+
+function fn(id, params, returns) {
+  return {kind: "function", id, type: "Function", signatures: [{type: "function", params, returns}]}
+}
+
+function param(id, type, extra) {
+  return Object.assign({kind: "parameter", id: `f^${id}`, name: id, type}, extra)
+}
+
+describe("diff", () => {
+  it("reports added and removed items", () => {
+    let changes = diff({a: {kind: "variable", id: "a", type: "number"}}, {b: {kind: "variable", id: "b", type: "number"}})
+    assert.deepEqual(changes, [
+      {id: "a", severity: "breaking", message: "variable was removed"},
+      {id: "b", severity: "non-breaking", message: "variable was added"}
+    ])
+  })
+
+  it("classifies parameter changes", () => {
+    let changes = diff({f: fn("f", [param("x", "number"), param("y", "string", {optional: true})])},
+                       {f: fn("f", [param("x", "union", {typeArgs: [{type: "number"}, {type: "string"}]}),
+                                    param("y", "string"), param("z", "string", {optional: true})])})
+    assert.deepEqual(changes.map(c => [c.severity, c.message]), [
+      ["non-breaking", "type of parameter x widened from number to number | string"],
+      ["breaking", "parameter y is no longer optional"],
+      ["non-breaking", "optional parameter z was added"]
+    ])
+  })
+
+  it("treats wider return types as breaking", () => {
+    let changes = diff({f: fn("f", [], {type: "string"})},
+                       {f: fn("f", [], {type: "union", typeArgs: [{type: "string"}, {type: "null"}]})})
+    assert.deepEqual(changes.map(c => c.severity), ["breaking"])
+  })
+
+  it("compares class members", () => {
+    let cls = props => ({C: {kind: "class", id: "C", type: "class", instanceProperties: props}})
+    let changes = diff(cls({x: {kind: "property", id: "C.x", type: "number"}}),
+                       cls({x: {kind: "property", id: "C.x", type: "number", readonly: true, description: "X"}}))
+    assert.deepEqual(changes.map(c => [c.id, c.severity]), [["C.x", "documentation"], ["C.x", "breaking"]])
+  })
+
+  it("reports properties that became optional", () => {
+    let iface = optional => ({I: {kind: "interface", id: "I", type: "interface", properties: {
+      x: {kind: "property", id: "I.x", type: "number", optional}
+    }}})
+    assert.deepEqual(diff(iface(undefined), iface(true)), [{id: "I.x", severity: "breaking", message: "became optional"}])
+  })
+
+  it("reports properties that are no longer optional", () => {
+    let iface = optional => ({I: {kind: "interface", id: "I", type: "interface", properties: {
+      x: {kind: "property", id: "I.x", type: "number", optional}
+    }}})
+    assert.deepEqual(diff(iface(true), iface(undefined)), [{id: "I.x", severity: "breaking", message: "is no longer optional"}])
+  })
+
+  it("compares accessor write types separately", () => {
+    let prop = extra => ({p: Object.assign({kind: "property", id: "p", type: "string"}, extra)})
+    let wide = {type: "union", typeArgs: [{type: "string"}, {type: "number"}]}
+    let changes = diff(prop({writeType: wide}), prop({}))
+    assert.deepEqual(changes.map(c => [c.severity, c.message]), [
+      ["breaking", "write type narrowed from string | number to string"]
+    ])
+  })
+
+  it("reports changed enum values", () => {
+    let enm = value => ({E: {kind: "enum", id: "E", type: "enum", properties: {
+      A: {kind: "enummember", id: "E.A", type: "E", value}
+    }}})
+    assert.deepEqual(diff(enm(1), enm(2)), [{id: "E.A", severity: "breaking", message: "value changed from 1 to 2"}])
+  })
+
+  it("compares type predicates", () => {
+    let guard = predicate => ({f: {kind: "function", id: "f", type: "Function", signatures: [
+      {type: "function", params: [param("x", "unknown")], returns: {type: "boolean"}, predicate}
+    ]}})
+    assert.deepEqual(diff(guard({param: "x", type: {type: "string"}}), guard(undefined)), [
+      {id: "f", severity: "breaking", message: "no longer has type predicate x is string"}
+    ])
+    assert.deepEqual(diff(guard(undefined), guard({param: "x", type: {type: "number"}})), [
+      {id: "f", severity: "non-breaking", message: "now has type predicate x is number"}
+    ])
+  })
+
+  it("reports changed constants", () => {
+    let v = extra => ({v: Object.assign({kind: "variable", id: "v", type: "number"}, extra)})
+    assert.deepEqual(diff(v({const: true, initializer: "5000"}), v({const: true, initializer: "3000"})), [
+      {id: "v", severity: "non-breaking", message: "initializer changed from 5000 to 3000"}
+    ])
+    assert.deepEqual(diff(v({}), v({const: true})), [{id: "v", severity: "non-breaking", message: "became const"}])
+    let literal = value => v({const: true, initializer: value, type: value})
+    assert.deepEqual(diff(literal("5000"), literal("3000")), [
+      {id: "v", severity: "breaking", message: "type changed from 5000 to 3000"}
+    ])
+  })
+})
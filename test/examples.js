@@ -0,0 +1,22 @@
+const assert = require("assert")
+
+const {checkExamples, findExamples} = require("../src")
+
+describe("checkExamples", () => {
+  it("finds TypeScript code in descriptions and examples", () => {
+    let item = {kind: "function", id: "f", type: "Function", description: "Intro.\n\n```ts\nf()\n```\n\n```sh\nls\n```",
+                examples: ["f(1)", "```\nf(2)\n```"]}
+    assert.deepEqual(findExamples(item), ["f()\n", "f(1)", "f(2)\n"])
+  })
+
+  it("reports type errors in examples", () => {
+    let [report] = checkExamples([{filename: "test/examples/lib.ts", basedir: "test/examples"}])
+    assert.equal(report.examples, 4)
+    assert.equal(report.hasErrors, true)
+    assert.deepEqual(report.warnings, [{
+      message: "Example 2, line 1: error TS2345: Argument of type 'string' is not assignable to parameter of type 'number'.",
+      id: "add",
+      loc: {file: "lib.ts", line: 1, column: 0}
+    }])
+  })
+})
@@ -0,0 +1,31 @@
+/// Add two numbers.
+///
+/// ```ts
+/// let sum: number = add(1, 2)
+/// ```
+///
+/// @example
+/// add(1, "two")
+export function add(a: number, b: number) { return a + b }
+
+/// A greeting.
+///
+/// ```typescript
+/// import {greet} from "./lib"
+/// greet("world")
+/// ```
+///
+/// ```js
+/// this is not checked
+/// ```
+export function greet(name: string) { return "Hello " + name }
+
+export interface Options {
+  /// How loud to be.
+  ///
+  /// @example
+  /// ```
+  /// let opts: Options = {volume: 11}
+  /// ```
+  volume: number
+}
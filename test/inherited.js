@@ -0,0 +1,54 @@
+const assert = require("assert")
+
+const {gatherSources, toDeclarationString} = require("../src")
+
+describe("includeInherited", () => {
+  let files = {"a.ts": `/// A shape.
+export class Shape {
+  /// The name.
+  name = "shape"
+  /// Compute the area.
+  area() { return 0 }
+  private secret = 1
+}
+
+export class Circle extends Shape {
+  radius = 1
+  /// The area of the circle.
+  area() { return Math.PI * this.radius ** 2 }
+}
+
+export interface Failure extends Error {
+  code: number
+}
+`}
+
+  it("leaves out inherited members by default", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts"}])
+    assert.deepEqual(Object.keys(items.Circle.instanceProperties), ["radius", "area"])
+    assert.deepEqual(Object.keys(items.Failure.properties), ["code"])
+  })
+
+  it("can include inherited members", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts", includeInherited: true}])
+    let props = items.Circle.instanceProperties
+    assert.deepEqual(Object.keys(props), ["radius", "area", "name"])
+    assert.equal(props.area.overrides, true)
+    assert.equal(props.area.inheritedFrom, undefined)
+    assert.equal(props.name.id, "Circle.name")
+    assert.equal(props.name.description, "The name.")
+    assert.deepEqual(props.name.inheritedFrom, {type: "Shape", typeSource: "a.ts"})
+    assert.equal(items.Shape.instanceProperties.area.overrides, undefined)
+    assert.equal(toDeclarationString(items.Circle), `export declare class Circle extends Shape {
+  radius: number;
+  area(): number;
+}`)
+  })
+
+  it("includes members of external base interfaces", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts", includeInherited: true}])
+    let props = items.Failure.properties
+    assert.deepEqual(Object.keys(props).sort(), ["code", "message", "name", "stack"])
+    assert.deepEqual(props.message.inheritedFrom, {type: "Error"})
+  })
+})
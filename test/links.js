@@ -0,0 +1,36 @@
+const assert = require("assert")
+
+const {gatherMany} = require("../src")
+
+describe("resolveLinks", () => {
+  let warnings = [], a, b
+  before(() => {
+    let result = gatherMany(["a", "b"].map(name => ({
+      filename: `test/links/${name}.ts`,
+      resolveLinks: true,
+      onWarning: w => warnings.push(w)
+    })))
+    a = result[0]
+    b = result[1]
+  })
+
+  it("resolves references to items, members, and params", () => {
+    assert.deepEqual(a.Box.links, [{text: "Box.get", id: "Box.get"}, {text: "make", id: "make"}])
+    assert.deepEqual(a.make.links, [{text: "Box", id: "Box"}, {text: "value", id: "make^value"}])
+  })
+
+  it("resolves references across specs", () => {
+    assert.deepEqual(a.Alias.links, [{text: "Other", id: "Other"}, {text: "Map"}])
+    assert.deepEqual(b.Other.properties.contents.links, [{text: "Box.get", id: "Box.get"}])
+  })
+
+  it("falls back to the symbol table", () => {
+    assert.deepEqual(a.Box.instanceProperties.get.links, [{text: "Array.isArray"}])
+    assert.deepEqual(b.Other.links, [{text: "Box", id: "Box"}, {text: "Promise"}])
+  })
+
+  it("reports unresolved references", () => {
+    assert.deepEqual(warnings, [{message: "Unresolved reference to Box.missing", id: "make",
+                                 loc: {file: "test/links/a.ts", line: 9, column: 0}}])
+  })
+})
@@ -0,0 +1,14 @@
+/// A container. See [`Box.get`] and [`make`].
+export class Box<T> {
+  constructor(readonly value: T) {}
+
+  /// Return the value. Compare {@link Array.isArray}.
+  get(): T { return this.value }
+}
+
+/// Create a [`Box`] holding `value`. The [`value`] param may be
+/// anything. Returns a {@link Box | box}, unlike [`Box.missing`].
+export function make<T>(value: T) { return new Box(value) }
+
+/// Also known as [`Other`](#Other), see {@link Map}.
+export type Alias = Box<string>
@@ -0,0 +1,5 @@
+/// Wraps a [`Box`] from the other package, or a [`Promise`].
+export interface Other {
+  /// Holds a [`Box.get`] result.
+  contents: string
+}
@@ -0,0 +1,45 @@
+const assert = require("assert")
+
+const {lintDocs} = require("../src")
+
+describe("lintDocs", () => {
+  let report
+  before(() => {
+    report = lintDocs([{filename: "test/lint/docs.ts"}])[0]
+  })
+
+  it("reports undocumented items and parameters", () => {
+    assert.deepEqual(report.problems.slice(1).map(p => p.message), [
+      "Missing documentation for parameter label of Widget.constructor",
+      "Missing documentation for parameter colour of Widget.draw",
+      "Missing documentation for property Widget.height",
+      "Missing documentation for function undocumented",
+      "Missing documentation for parameter a of undocumented"
+    ])
+    assert.deepEqual(report.problems[1].loc, {file: "test/lint/docs.ts", line: 5, column: 28})
+  })
+
+  it("reports @param tags for missing parameters", () => {
+    assert.deepEqual(report.problems[0], {message: "@param tag for unknown parameter color", id: "Widget.draw",
+                                          loc: {file: "test/lint/docs.ts", line: 7, column: 2}})
+  })
+
+  it("matches @param tags to destructured parameters by position", () => {
+    let [{problems}] = lintDocs([{filename: "test/lint/destructured.ts"}])
+    assert.deepEqual(problems, [])
+  })
+
+  it("reports references to unknown parameters in descriptions", () => {
+    let [{problems}] = lintDocs([{filename: "test/lint/stale.ts"}])
+    assert.deepEqual(problems.filter(p => /refers/.test(p.message)), [
+      {message: "Description of draw refers to unknown parameter color", id: "draw",
+       loc: {file: "test/lint/stale.ts", line: 1, column: 0}}
+    ])
+  })
+
+  it("computes coverage", () => {
+    assert.equal(report.total, 9)
+    assert.equal(report.documented, 4)
+    assert.equal(report.coverage, 44.4)
+  })
+})
@@ -0,0 +1,4 @@
+/// Move the widget.
+/// @param position The new position.
+/// @param animate Whether to animate the move.
+export function move({x, y}: {x: number, y: number}, animate: boolean) {}
@@ -0,0 +1,17 @@
+/// A documented class.
+export class Widget {
+  /// Create a widget.
+  /// @param size The size of the widget.
+  constructor(size: number, label: string) {}
+
+  /// Draw the widget.
+  /// @param color The color to use.
+  draw(colour: string) {}
+
+  height = 10
+}
+
+/// @internal
+export const hidden = 1
+
+export function undocumented(a: number) { return a }
@@ -0,0 +1,6 @@
+/// Draw `shape`, scaled by `factor`, in [`color`]. Returns `true`
+/// when it drew something, like [`clear`] does.
+export function draw(shape: string, factor: number) { return true }
+
+/// Clear the canvas.
+export function clear() {}
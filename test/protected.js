@@ -0,0 +1,44 @@
+const assert = require("assert")
+
+const {gatherSources, toDeclarationString} = require("../src")
+
+describe("includeProtected", () => {
+  let files = {"a.ts": `/// A base class.
+export class Base {
+  /// Create it.
+  protected constructor(protected size: number, private secret: string) {}
+  /// For subclasses.
+  protected draw() {}
+  /// Shared.
+  protected static count = 0
+  private hidden() {}
+  /// Public.
+  show() {}
+}
+`}
+
+  it("leaves out protected members by default", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts"}])
+    assert.deepEqual(Object.keys(items.Base.instanceProperties), ["show"])
+    assert.equal(items.Base.construct, undefined)
+    assert.equal(items.Base.properties, undefined)
+  })
+
+  it("can include protected members", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts", includeProtected: true}])
+    let {instanceProperties, properties, construct} = items.Base
+    assert.deepEqual(Object.keys(instanceProperties), ["size", "draw", "show"])
+    assert.equal(instanceProperties.draw.access, "protected")
+    assert.equal(instanceProperties.size.access, "protected")
+    assert.equal(instanceProperties.show.access, undefined)
+    assert.equal(properties.count.access, "protected")
+    assert.equal(construct.access, "protected")
+    assert.equal(toDeclarationString(items.Base), `export declare class Base {
+  protected constructor(size: number, secret: string);
+  protected static count: number;
+  protected size: number;
+  protected draw(): void;
+  show(): void;
+}`)
+  })
+})
@@ -0,0 +1,29 @@
+const assert = require("assert")
+
+const {gatherSources} = require("../src")
+
+describe("recover", () => {
+  let files = {"a.ts": "/// Block inference.\nexport type Fixed<T> = NoInfer<T>\n"}
+
+  it("throws on unsupported types by default", () => {
+    assert.throws(() => gatherSources(files, [{filename: "a.ts"}]), /Unsupported type NoInfer<T>/)
+  })
+
+  it("replaces unsupported types with a placeholder", () => {
+    let warnings = []
+    let [items] = gatherSources(files, [{filename: "a.ts", recover: true, onWarning: w => warnings.push(w)}])
+    assert.equal(items.Fixed.type, "unsupported")
+    assert.equal(items.Fixed.text, "NoInfer<T>")
+    assert.equal(warnings.length, 1)
+    assert.equal(warnings[0].id, "Fixed")
+    assert.deepEqual(warnings[0].loc, {file: "a.ts", line: 1, column: 0})
+  })
+
+  it("keeps warnings on the placeholder without a callback", () => {
+    let [items] = gatherSources(files, [{filename: "a.ts", recover: true}])
+    let {message, id, loc} = items.Fixed.warning
+    assert.match(message, /^Unsupported type NoInfer<T>/)
+    assert.equal(id, "Fixed")
+    assert.deepEqual(loc, {file: "a.ts", line: 1, column: 0})
+  })
+})
@@ -0,0 +1,33 @@
+const assert = require("assert")
+
+const {gather, render} = require("../src")
+
+describe("render", () => {
+  let items = gather({filename: "test/cases/references.ts"})
+
+  it("renders markdown with linked signatures", () => {
+    let md = render(items, {title: "References"})
+    assert.ok(md.startsWith("# References\n"))
+    assert.ok(md.includes(`<a id="Point"></a>\n## <code>Point</code>`))
+    assert.ok(md.includes(`<strong>p</strong>: <a href="#Point">Point</a>&lt;number&gt;`))
+    assert.ok(md.includes("type <strong>Point</strong>&lt;T&gt; = {x: T, y: T}"))
+  })
+
+  it("renders a standalone HTML page", () => {
+    let html = render(items, {format: "html", sourceURL: "https://example.com/{file}#L{line}"})
+    assert.ok(html.startsWith("<!doctype html>"))
+    assert.ok(html.includes(`<h2 id="Foo"><code>Foo</code></h2>`))
+    assert.ok(html.includes(`class <strong>Foo</strong> implements <a href="#Point">Point</a>&lt;string&gt;`))
+    assert.ok(html.includes(`<a href="https://example.com/references.ts#L5">references.ts:5</a>`))
+  })
+
+  it("links types declared in namespaces", () => {
+    let md = render(gather({filename: "test/cases/namespace_reference.ts"}), {})
+    assert.ok(md.includes(`function <strong>f</strong>(o: <a href="#NS.O">NS.O</a>): void`))
+  })
+
+  it("links item references in descriptions", () => {
+    let html = render({x: {kind: "variable", id: "x", type: "number", description: "See [`x`] and *this*."}}, {format: "html"})
+    assert.ok(html.includes(`<p>See <a href="#x"><code>x</code></a> and <em>this</em>.</p>`))
+  })
+})
@@ -0,0 +1,63 @@
+const assert = require("assert")
+
+const {gather, apiReport, toDeclarationString, checkAPIReport} = require("../src")
+
+describe("apiReport", () => {
+  it("prints classes, namespaces, and merged declarations", () => {
+    assert.equal(apiReport(gather({filename: "test/cases/namespace.ts"})), `export declare namespace Util {
+  export function add(a: number, b: number): number;
+  export const zero: 0;
+  export interface Options {
+    verbose: boolean;
+  }
+}
+
+export declare function create(): number;
+export declare namespace create {
+  export let defaultValue: number;
+}
+
+export declare class Point {
+  constructor(x: number);
+  static origin: Point;
+  readonly x: number;
+}
+export declare namespace Point {
+  export function equal(a: Point, b: Point): boolean;
+}
+
+export declare namespace voidCase {
+  export const x: () => void;
+}
+`)
+  })
+
+  it("prints type aliases", () => {
+    let items = gather({filename: "test/cases/conditionaltype_infer.ts"})
+    assert.equal(toDeclarationString(items.InferParams), "export type InferParams<T> = T extends (infer U)[] ? U : never;")
+    items = gather({filename: "test/cases/template_literal.ts"})
+    assert.equal(toDeclarationString(items.A), "export type A<T extends string> = `hello ${T}`;")
+  })
+
+  it("round-trips through the type checker", () => {
+    assert.deepEqual(checkAPIReport({filename: "test/cases/namespace.ts"}).errors, [])
+    assert.deepEqual(checkAPIReport({filename: "test/cases/interface_namespace_collision.ts"}).errors, [])
+    assert.deepEqual(checkAPIReport({filename: "test/cases/namespace_reference.ts"}).errors, [])
+  })
+
+  it("reports errors in the round trip", () => {
+    assert.deepEqual(checkAPIReport({filename: "test/cases/abstract_method.ts"}).errors,
+                     ["2:3: Abstract methods can only appear within an abstract class."])
+  })
+
+  it("reports errors in the added imports separately", () => {
+    let spec = {filename: "test/report/src/default_import.ts", basedir: "test/report/src"}
+    assert.deepEqual(checkAPIReport(spec).errors, ["imports:1:9: Identifier expected."])
+  })
+
+  it("imports the namespaces that referenced types are declared in", () => {
+    let {report, errors} = checkAPIReport({filename: "test/report/src/namespace_import.ts", basedir: "test/report/src"})
+    assert.equal(report, "export declare function setLevel(level: Config.Level): void;\n")
+    assert.deepEqual(errors, [])
+  })
+})
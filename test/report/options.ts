@@ -0,0 +1,7 @@
+/// Options.
+export default interface Options { verbose: boolean }
+
+export namespace Config {
+  /// A log level.
+  export interface Level { n: number }
+}
@@ -0,0 +1,4 @@
+import Options from "../options"
+
+/// Run with options.
+export function run(options: Options) {}
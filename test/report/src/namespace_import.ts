@@ -0,0 +1,4 @@
+import {Config} from "../options"
+
+/// Set the log level.
+export function setLevel(level: Config.Level) {}
@@ -0,0 +1,28 @@
+const assert = require("assert")
+
+const {gather, searchIndex, tokenize} = require("../src")
+
+describe("searchIndex", () => {
+  let index = searchIndex(gather({filename: "test/cases/namespace.ts"}))
+
+  it("lists nested items with signatures and summaries", () => {
+    let byId = id => index.items.find(e => e.id == id)
+    assert.deepEqual(byId("Util.add"), {id: "Util.add", kind: "function", name: "add",
+                                        signature: "add(a: number, b: number): number", summary: "Add two numbers."})
+    assert.equal(byId("Point.constructor").signature, "new Point(x: number)")
+    assert.equal(byId("Point^origin").name, "origin")
+    assert.ok(byId("Util.Options.verbose"))
+  })
+
+  it("indexes words from names and descriptions", () => {
+    let ids = word => (index.words[word] || []).map(n => index.items[n].id)
+    assert.deepEqual(ids("numbers"), ["Util.add"])
+    assert.deepEqual(ids("value"), ["create.defaultValue"])
+    assert.deepEqual(ids("defaultvalue"), ["create.defaultValue"])
+    assert.deepEqual(Object.keys(index.words), Object.keys(index.words).sort())
+  })
+
+  it("tokenizes text", () => {
+    assert.deepEqual(tokenize("Add a $value to the_list."), ["add", "$value", "to", "the_list"])
+  })
+})
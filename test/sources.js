@@ -0,0 +1,21 @@
+const assert = require("assert")
+
+const {gatherSources} = require("../src")
+
+describe("gatherSources", () => {
+  it("gathers from in-memory files", () => {
+    let [items] = gatherSources({
+      "index.ts": `import {Options} from "./lib/options"\n/// Run it.\nexport function run(options: Options) {}\n`,
+      "lib/options.ts": `/// The options.\nexport interface Options { verbose: boolean }\n`
+    }, [{filename: "index.ts", compilerOptions: {strict: true}}])
+    assert.deepEqual(items.run.loc, {file: "index.ts", line: 2, column: 0})
+    // Not exported, so inlined
+    assert.deepEqual(items.run.signatures[0].params[0].properties.verbose.loc.file, "lib/options.ts")
+  })
+
+  it("falls back to the lib files", () => {
+    let [items] = gatherSources({"a.ts": `export const m = new Map<string, number>()\n`}, [{filename: "a.ts"}])
+    assert.deepEqual(items.m.type, "Map")
+    assert.equal(items.m.typeSource, undefined)
+  })
+})
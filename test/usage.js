@@ -0,0 +1,37 @@
+const assert = require("assert")
+
+const {gatherSources, usageIndex, render} = require("../src")
+
+describe("usageIndex", () => {
+  let files = {
+    "tx.ts": `/// A transaction.
+export class Transaction {
+  /// Commit the transaction.
+  commit(): Promise<Receipt> { return null as any }
+}
+export interface Receipt { id: number }
+`,
+    "db.ts": `import {Transaction} from "./tx"
+export {Transaction, Receipt} from "./tx"
+export class Db {
+  begin(): Transaction { return new Transaction }
+  run(tx: Transaction, options: {retry: Transaction[]}) {}
+}
+export interface Nested extends Transaction {}
+`
+  }
+  let results = gatherSources(files, [{filename: "db.ts"}])
+
+  it("lists the items that use and return a type", () => {
+    let index = usageIndex(results)
+    assert.deepEqual(index.Transaction, {usedBy: ["Db.run", "Nested"], returnedBy: ["Db.begin"]})
+    assert.deepEqual(index.Receipt, {usedBy: [], returnedBy: ["Transaction.commit"]})
+    assert.equal(index.Db, undefined)
+  })
+
+  it("can be rendered", () => {
+    let md = render(results[0], {usage: usageIndex(results)})
+    assert.ok(md.includes("Returned by:\n\n - [`Db.begin`](#Db.begin)"))
+    assert.ok(md.includes("Used by:\n\n - [`Db.run`](#Db.run)\n - [`Nested`](#Nested)"))
+  })
+})
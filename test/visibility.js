@@ -0,0 +1,49 @@
+const assert = require("assert")
+
+const {gatherSources} = require("../src")
+
+describe("visibility", () => {
+  let files = {"a.ts": `/// Public.
+export const a = 1
+/// @internal
+/// Internal.
+export const b = 2
+/// Not ready.
+/// @alpha
+export const c = 3
+/// Skip me.
+export const d = 4
+export class E {
+  /// @internal
+  constructor() {}
+}
+`}
+  let gather = visibility => gatherSources(files, [{filename: "a.ts", visibility}])[0]
+
+  it("hides internal items by default", () => {
+    let items = gather()
+    assert.deepEqual(Object.keys(items), ["a", "c", "d", "E"])
+    assert.equal(items.E.construct, undefined)
+  })
+
+  it("supports extra hidden tags and a predicate", () => {
+    let items = gather({hiddenTags: ["alpha"], isHidden: (symbol, comment) => /Skip/.test(comment || "")})
+    assert.deepEqual(Object.keys(items), ["a", "E"])
+  })
+
+  it("matches hidden tags literally", () => {
+    let items = gather({hiddenTags: ["alph.", "(beta"]})
+    assert.deepEqual(Object.keys(items), ["a", "c", "d", "E"])
+  })
+
+  it("can mark hidden items instead of dropping them", () => {
+    let items = gather({hiddenTags: ["alpha"], includeHidden: true})
+    assert.deepEqual(Object.keys(items), ["a", "b", "c", "d", "E"])
+    assert.equal(items.a.internal, undefined)
+    assert.equal(items.b.internal, true)
+    assert.equal(items.b.description, "Internal.")
+    assert.equal(items.c.description, "Not ready.")
+    assert.equal(items.E.construct.internal, true)
+    assert.equal(items.E.construct.description, undefined)
+  })
+})
@@ -0,0 +1,54 @@
+const assert = require("assert")
+const fs = require("fs"), os = require("os"), path = require("path")
+
+const {watch} = require("../src")
+
+describe("watch", () => {
+  let dir
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "getdocs-"))
+    fs.writeFileSync(path.join(dir, "a.ts"), `import {B} from "./b"\n/// A\nexport const a: B = 1\n`)
+    fs.writeFileSync(path.join(dir, "b.ts"), `/// B\nexport type B = number\n`)
+    fs.writeFileSync(path.join(dir, "c.ts"), `/// C\nexport const c = 1\n`)
+    fs.writeFileSync(path.join(dir, "d.ts"), `/// D\nexport type D<T> = NoInfer<T>\n`)
+  })
+  after(() => fs.rmSync(dir, {recursive: true}))
+
+  it("re-gathers the specs affected by a change", () => new Promise((resolve, reject) => {
+    let updates = []
+    let watcher = watch(["a", "b", "c"].map(name => ({filename: path.join(dir, name + ".ts")})), (results, changed) => {
+      updates.push({changed, description: results[1].B.description})
+      if (updates.length == 1) {
+        fs.writeFileSync(path.join(dir, "b.ts"), `/// B2\nexport type B = string\n`)
+      } else {
+        watcher.close()
+        try {
+          assert.deepEqual(updates, [{changed: [0, 1, 2], description: "B"}, {changed: [0, 1], description: "B2"}])
+          resolve()
+        } catch (e) {
+          reject(e)
+        }
+      }
+    }, reject)
+  }))
+
+  it("reports all specs once a failing one is fixed", () => new Promise((resolve, reject) => {
+    let errors = 0
+    // The different compiler options put the specs in separate groups
+    let watcher = watch([{filename: path.join(dir, "d.ts"), compilerOptions: {strict: true}},
+                         {filename: path.join(dir, "c.ts")}], (results, changed) => {
+      watcher.close()
+      try {
+        assert.equal(errors, 1)
+        assert.deepEqual(changed, [0, 1])
+        assert.equal(results[0].D.type, "T")
+        assert.equal(results[1].c.description, "C")
+        resolve()
+      } catch (e) {
+        reject(e)
+      }
+    }, () => {
+      if (++errors == 1) fs.writeFileSync(path.join(dir, "d.ts"), `/// D\nexport type D<T> = T\n`)
+    })
+  }))
+})